@@ -5,7 +5,7 @@
 
 import { SignJWT, importPKCS8 } from "jose";
 
-interface ServiceAccount {
+export interface ServiceAccount {
   type?: string;
   project_id?: string;
   private_key_id?: string;
@@ -19,741 +19,2204 @@ interface ServiceAccount {
   universe_domain?: string;
 }
 
-const serviceAccount: ServiceAccount = {
-  type: process.env.FIREBASE_TYPE,
-  project_id: process.env.FIREBASE_PROJECT_ID,
-  private_key_id: process.env.FIREBASE_PRIVATE_KEY_ID,
-  private_key: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, "\n"),
-  client_email: process.env.FIREBASE_CLIENT_EMAIL,
-  client_id: process.env.FIREBASE_CLIENT_ID,
-  auth_uri: process.env.FIREBASE_AUTH_URI,
-  token_uri: process.env.FIREBASE_TOKEN_URI,
-  auth_provider_x509_cert_url: process.env.FIREBASE_AUTH_PROVIDER_X509_CERT_URL,
-  client_x509_cert_url: process.env.FIREBASE_CLIENT_X509_CERT_URL,
-  universe_domain: process.env.FIREBASE_UNIVERSE_DOMAIN,
+/**
+ * Options accepted by the Firestore constructor
+ */
+export interface FirestoreSettings {
+  /**
+   * Google Cloud project ID
+   * Defaults to `credentials.project_id`, then the FIREBASE_PROJECT_ID env var
+   */
+  projectId?: string;
+  /**
+   * Service account key, external account (workload identity federation) JSON,
+   * or any CredentialProvider such as MetadataServerCredential
+   * Defaults to a service account built from the individual FIREBASE_* env vars
+   */
+  credentials?: ServiceAccount | ExternalAccountConfig | CredentialProvider;
+  /**
+   * Named database to use within the project
+   * Defaults to `(default)`
+   */
+  databaseId?: string;
+  /**
+   * Host (and optional port) of the Firestore REST endpoint
+   * Defaults to the FIRESTORE_EMULATOR_HOST env var, then firestore.googleapis.com
+   */
+  host?: string;
+  /**
+   * Whether to use HTTPS. Set to false to talk to the local emulator, which
+   * also skips OAuth and authenticates as `Bearer owner`
+   * Defaults to false when FIRESTORE_EMULATOR_HOST is used, true otherwise
+   */
+  ssl?: boolean;
+  /**
+   * Authenticate service accounts with locally signed JWTs instead of exchanging
+   * them for OAuth tokens, saving a network round trip on cold starts
+   * Only applies when `credentials` is a service account key
+   */
+  selfSignedJwt?: boolean;
+  /**
+   * Where access tokens are stored between requests
+   * Back this with Workers KV, Redis, the Cache API, etc. to reuse tokens across isolates
+   * Defaults to an in-memory cache scoped to this instance, which is also used for
+   * credentials without a cacheKey
+   */
+  tokenCache?: TokenCache;
+  /**
+   * How transient REST failures are retried, or false to disable retries
+   */
+  retry?: RetryPolicy | false;
+  /**
+   * Deadline for each REST request attempt in milliseconds
+   * Defaults to 60 seconds
+   */
+  timeout?: number;
+  /**
+   * fetch implementation used for every request, including token requests
+   * Use it to route through a service binding, a keep-alive agent, or a mock in tests
+   * Defaults to the global fetch
+   */
+  fetch?: FetchFunction;
+  /**
+   * Extra headers sent with every Firestore request, e.g. a custom user-agent
+   */
+  headers?: Record<string, string>;
+  /**
+   * Read integers as bigint so int64 values above 2^53 keep their precision
+   * Defaults to false, which reads integers as number
+   */
+  useBigInt?: boolean;
+  /**
+   * Also put the document ID into data() as `id`, as earlier releases did
+   * A stored field called `id` still wins. Defaults to false; prefer snapshot.id
+   * @deprecated Kept for compatibility and will be removed in a future major version
+   */
+  includeIdInData?: boolean;
+}
+
+/**
+ * Minimal fetch signature the client depends on
+ */
+export type FetchFunction = (input: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Retry behaviour for transient REST failures
+ */
+export interface RetryPolicy {
+  /** Total attempts including the first one. Defaults to 5 */
+  maxAttempts?: number;
+  /** Delay before the first retry. Defaults to 100ms */
+  initialBackoffMs?: number;
+  /** Upper bound for a single delay. Defaults to 10s */
+  maxBackoffMs?: number;
+  /** Growth factor between delays. Defaults to 2 */
+  backoffMultiplier?: number;
+  /** Fraction of each delay that is randomized, 0 to 1. Defaults to 0.5 */
+  jitter?: number;
+  /** Error codes worth retrying. Defaults to resource-exhausted, internal, unavailable and deadline-exceeded */
+  retryableCodes?: FirestoreErrorCode[];
+  /**
+   * Also retry requests that may have been applied, such as add() or increments
+   * Defaults to false
+   */
+  retryNonIdempotent?: boolean;
+}
+
+const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 5,
+  initialBackoffMs: 100,
+  maxBackoffMs: 10000,
+  backoffMultiplier: 2,
+  jitter: 0.5,
+  retryableCodes: ["resource-exhausted", "internal", "unavailable", "deadline-exceeded"],
+  retryNonIdempotent: false,
 };
 
-const FIREBASE_PROJECT_ID = process.env.FIREBASE_PROJECT_ID!;
+const DEFAULT_DATABASE_ID = "(default)";
+const DEFAULT_HOST = "firestore.googleapis.com";
+const DEFAULT_TIMEOUT_MS = 60000;
 
-// Token cache to avoid regenerating on every request
-let cachedToken: { token: string; expiresAt: number } | null = null;
+// The emulator accepts this token in place of a real OAuth token
+const EMULATOR_TOKEN = "owner";
 
 /**
- * Sign a JWT using jose library (WebCrypto compatible)
- * This works in workflow runtime environments
+ * Settings resolved for a single Firestore instance
+ * Each instance keeps its own token cache so several projects can be used side by side
  */
-async function signJwt(payload: object, privateKey: string): Promise<string> {
-  // Import the private key
-  const key = await importPKCS8(privateKey, "RS256");
+interface FirestoreConfig {
+  projectId: string;
+  databaseId: string;
+  baseUrl: string;
+  emulator: boolean;
+  credentials: CredentialProvider;
+  tokenCache: TokenCache;
+  retry: Required<RetryPolicy>;
+  timeout: number;
+  fetch: FetchFunction;
+  headers: Record<string, string>;
+  useBigInt: boolean;
+  includeIdInData: boolean;
+  // Shared by concurrent callers so only one token request is in flight at a time
+  pendingToken: Promise<AccessToken> | null;
+}
 
-  // Create and sign the JWT
-  const jwt = await new SignJWT(payload as any).setProtectedHeader({ alg: "RS256", typ: "JWT" }).sign(key);
+/**
+ * Read an environment variable without assuming `process` exists
+ * Edge runtimes such as Cloudflare Workers only expose secrets on the `env` binding
+ */
+function readEnv(name: string): string | undefined {
+  return typeof process !== "undefined" ? process.env?.[name] : undefined;
+}
 
-  return jwt;
+/**
+ * Build service account credentials from the individual FIREBASE_* env vars
+ */
+function serviceAccountFromEnv(): ServiceAccount {
+  return {
+    type: readEnv("FIREBASE_TYPE"),
+    project_id: readEnv("FIREBASE_PROJECT_ID"),
+    private_key_id: readEnv("FIREBASE_PRIVATE_KEY_ID"),
+    private_key: readEnv("FIREBASE_PRIVATE_KEY"),
+    client_email: readEnv("FIREBASE_CLIENT_EMAIL"),
+    client_id: readEnv("FIREBASE_CLIENT_ID"),
+    auth_uri: readEnv("FIREBASE_AUTH_URI"),
+    token_uri: readEnv("FIREBASE_TOKEN_URI"),
+    auth_provider_x509_cert_url: readEnv("FIREBASE_AUTH_PROVIDER_X509_CERT_URL"),
+    client_x509_cert_url: readEnv("FIREBASE_CLIENT_X509_CERT_URL"),
+    universe_domain: readEnv("FIREBASE_UNIVERSE_DOMAIN"),
+  };
 }
 
 /**
- * Get OAuth2 access token from service account credentials
- * Service account properties should be in individual FIREBASE_* env vars
+ * Merge the retry setting over the defaults
+ * Options left undefined or NaN, as config-driven code often produces, keep their default
  */
-async function getAccessToken(): Promise<string> {
-  // Return cached token if still valid (with 5 minute buffer)
-  if (cachedToken && cachedToken.expiresAt > Date.now() + 5 * 60 * 1000) {
-    return cachedToken.token;
+function resolveRetryPolicy(retry?: RetryPolicy | false): Required<RetryPolicy> {
+  if (retry === false) {
+    return { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 };
   }
 
-  if (!serviceAccount.client_email || !serviceAccount.private_key) {
-    throw new Error("Invalid service account credentials");
+  const policy: any = { ...DEFAULT_RETRY_POLICY };
+  for (const [key, value] of Object.entries(retry || {})) {
+    if (value !== undefined && !Number.isNaN(value)) {
+      policy[key] = value;
+    }
   }
 
-  // Create JWT payload
-  const now = Math.floor(Date.now() / 1000);
-  const payload = {
-    iss: serviceAccount.client_email,
-    sub: serviceAccount.client_email,
-    aud: "https://oauth2.googleapis.com/token",
-    iat: now,
-    exp: now + 3600,
-    scope: "https://www.googleapis.com/auth/cloud-platform https://www.googleapis.com/auth/datastore",
-  };
+  // Anything else could leave a failing request retrying forever
+  if (!Number.isInteger(policy.maxAttempts) || policy.maxAttempts < 1) {
+    policy.maxAttempts = DEFAULT_RETRY_POLICY.maxAttempts;
+  }
 
-  // Sign JWT using jose (WebCrypto compatible)
-  const jwt = await signJwt(payload, serviceAccount.private_key);
+  return policy;
+}
 
-  // Exchange JWT for access token
-  const response = await fetch("https://oauth2.googleapis.com/token", {
-    method: "POST",
-    headers: { "Content-Type": "application/x-www-form-urlencoded" },
-    body: new URLSearchParams({
-      grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
-      assertion: jwt,
-    }),
-  });
+/**
+ * Resolve constructor settings, falling back to env vars for anything not provided
+ */
+function resolveSettings(settings: FirestoreSettings): FirestoreConfig {
+  const credentials = toCredentialProvider(settings.credentials || serviceAccountFromEnv(), settings.selfSignedJwt);
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Failed to get access token: ${error}`);
+  const projectId = settings.projectId || credentials.projectId || readEnv("FIREBASE_PROJECT_ID");
+  if (!projectId) {
+    throw new Error("Missing Firestore project ID. Pass projectId or set FIREBASE_PROJECT_ID");
   }
 
-  const data = (await response.json()) as { access_token: string; expires_in: number };
+  const emulatorHost = readEnv("FIRESTORE_EMULATOR_HOST");
+  const host = settings.host || emulatorHost || DEFAULT_HOST;
+  const ssl = settings.ssl ?? !(emulatorHost && !settings.host);
 
-  // Cache the token
-  cachedToken = {
-    token: data.access_token,
-    expiresAt: Date.now() + data.expires_in * 1000,
+  return {
+    projectId,
+    databaseId: settings.databaseId || DEFAULT_DATABASE_ID,
+    baseUrl: `${ssl ? "https" : "http"}://${host}`,
+    emulator: !ssl,
+    credentials,
+    // Without a cacheKey the credentials cannot be told apart from others in a shared cache
+    tokenCache: (credentials.cacheKey && settings.tokenCache) || new MemoryTokenCache(),
+    timeout: settings.timeout ?? DEFAULT_TIMEOUT_MS,
+    // Unbound global fetch throws "Illegal invocation" in some runtimes
+    fetch: settings.fetch || ((input, init) => fetch(input, init)),
+    headers: { ...settings.headers },
+    useBigInt: settings.useBigInt ?? false,
+    includeIdInData: settings.includeIdInData ?? false,
+    retry: resolveRetryPolicy(settings.retry),
+    pendingToken: null,
   };
+}
 
-  return data.access_token;
+/**
+ * Resource name of the database's document root
+ * e.g. projects/my-project/databases/(default)/documents
+ */
+function documentsRoot(firestore: Firestore): string {
+  return `projects/${firestore.projectId}/databases/${firestore.databaseId}/documents`;
 }
 
 /**
- * Sentinel value for server timestamp
+ * REST URL of the database's document root
  */
-const SERVER_TIMESTAMP_SENTINEL = Symbol("SERVER_TIMESTAMP");
+function documentsUrl(firestore: Firestore): string {
+  return `${firestore._config.baseUrl}/v1/${documentsRoot(firestore)}`;
+}
 
 /**
- * Sentinel value for field deletion
+ * Canonical error codes, matching the gRPC status codes returned by Firestore
  */
-const DELETE_FIELD_SENTINEL = Symbol("DELETE_FIELD");
+export type FirestoreErrorCode =
+  | "cancelled"
+  | "unknown"
+  | "invalid-argument"
+  | "deadline-exceeded"
+  | "not-found"
+  | "already-exists"
+  | "permission-denied"
+  | "resource-exhausted"
+  | "failed-precondition"
+  | "aborted"
+  | "out-of-range"
+  | "unimplemented"
+  | "internal"
+  | "unavailable"
+  | "data-loss"
+  | "unauthenticated"
+  // Client-side only: a document did not match the schema attached with withSchema()
+  | "validation-failed";
 
 /**
- * Sentinel value for increment
+ * One problem reported by a schema, located by the dotted path of the offending field
  */
-class IncrementValue {
-  constructor(public operand: number) {}
+export interface ValidationIssue {
+  /** e.g. "address.city" or "tags.0"; empty for the document itself */
+  path: string;
+  message: string;
 }
 
 /**
- * Sentinel value for array union
+ * Error thrown for failed Firestore and token requests
  */
-class ArrayUnionValue {
-  constructor(public elements: any[]) {}
+export class FirestoreError extends Error {
+  readonly code: FirestoreErrorCode;
+  /** HTTP status of the failed response, if there was one */
+  readonly status?: number;
+  /** Parsed `details` array from the Google JSON error body */
+  readonly details: any[];
+  /** Operation that failed, e.g. "get document" */
+  readonly operation?: string;
+  /** Document or collection path involved, if any */
+  readonly path?: string;
+  /** Field-level problems, for `validation-failed` errors */
+  readonly issues: ValidationIssue[];
+
+  constructor(
+    code: FirestoreErrorCode,
+    message: string,
+    options: { status?: number; details?: any[]; operation?: string; path?: string; issues?: ValidationIssue[]; cause?: unknown } = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = "FirestoreError";
+    this.code = code;
+    this.status = options.status;
+    this.details = options.details || [];
+    this.operation = options.operation;
+    this.path = options.path;
+    this.issues = options.issues || [];
+  }
 }
 
 /**
- * Sentinel value for array remove
+ * Fallback codes for responses whose body carries no gRPC status
  */
-class ArrayRemoveValue {
-  constructor(public elements: any[]) {}
+const HTTP_STATUS_CODES: { [status: number]: FirestoreErrorCode } = {
+  400: "invalid-argument",
+  401: "unauthenticated",
+  403: "permission-denied",
+  404: "not-found",
+  409: "aborted",
+  412: "failed-precondition",
+  429: "resource-exhausted",
+  499: "cancelled",
+  500: "internal",
+  501: "unimplemented",
+  502: "unavailable",
+  503: "unavailable",
+  504: "deadline-exceeded",
+};
+
+/**
+ * Build a FirestoreError from a failed response
+ * Understands the Google JSON error body, both as an object and as the first
+ * element of a streamed array (runQuery, batchGet)
+ */
+async function toFirestoreError(response: Response, operation: string, path?: string): Promise<FirestoreError> {
+  const text = await response.text().catch(() => "");
+
+  let body: any;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    body = undefined;
+  }
+
+  const error = Array.isArray(body) ? body.find((item: any) => item?.error)?.error : body?.error;
+
+  let code: FirestoreErrorCode = HTTP_STATUS_CODES[response.status] || "unknown";
+  let message = text || response.statusText;
+  let details: any[] | undefined;
+
+  if (error && typeof error === "object") {
+    // e.g. FAILED_PRECONDITION -> failed-precondition
+    if (typeof error.status === "string") {
+      code = error.status.toLowerCase().replace(/_/g, "-") as FirestoreErrorCode;
+    }
+    message = error.status ? `${error.status}: ${error.message}` : error.message;
+    details = error.details;
+  } else if (typeof error === "string") {
+    // OAuth endpoints use { error, error_description }
+    message = body.error_description ? `${error}: ${body.error_description}` : error;
+  }
+
+  return new FirestoreError(code, `Failed to ${operation}: ${message}`, {
+    status: response.status,
+    details,
+    operation,
+    path,
+  });
 }
 
 /**
- * Firestore Timestamp class
+ * Sign a JWT using jose library (WebCrypto compatible)
+ * This works in workflow runtime environments
  */
-export class Timestamp {
-  constructor(public seconds: number, public nanoseconds: number) {}
+async function signJwt(payload: object, privateKey: string, keyId?: string): Promise<string> {
+  // Import the private key
+  const key = await importPKCS8(privateKey, "RS256");
 
-  static now(): Timestamp {
-    const now = Date.now();
-    return new Timestamp(Math.floor(now / 1000), (now % 1000) * 1000000);
+  // Create and sign the JWT
+  const header = keyId ? { alg: "RS256", typ: "JWT", kid: keyId } : { alg: "RS256", typ: "JWT" };
+  const jwt = await new SignJWT(payload as any).setProtectedHeader(header).sign(key);
+
+  return jwt;
+}
+
+const OAUTH_SCOPES = ["https://www.googleapis.com/auth/cloud-platform", "https://www.googleapis.com/auth/datastore"];
+const DEFAULT_TOKEN_URI = "https://oauth2.googleapis.com/token";
+const DEFAULT_STS_TOKEN_URL = "https://sts.googleapis.com/v1/token";
+const DEFAULT_METADATA_HOST = "metadata.google.internal";
+
+// Tokens are refreshed this long before they expire
+const TOKEN_EXPIRY_BUFFER_MS = 5 * 60 * 1000;
+
+/**
+ * OAuth2 access token with its absolute expiry (epoch milliseconds)
+ */
+export interface AccessToken {
+  token: string;
+  expiresAt: number;
+}
+
+/**
+ * Details about the request a token is needed for
+ */
+export interface TokenRequestContext {
+  /**
+   * Root URL of the service the token will be sent to, e.g. https://firestore.googleapis.com/
+   */
+  audience: string;
+  /**
+   * fetch implementation configured on the Firestore instance
+   */
+  fetch?: FetchFunction;
+  /**
+   * Aborted once the token request exceeds the instance's timeout
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Source of OAuth2 access tokens for Firestore requests
+ * Tokens are cached per Firestore instance and refreshed shortly before they expire
+ */
+export interface CredentialProvider {
+  getAccessToken(context?: TokenRequestContext): Promise<AccessToken>;
+  /**
+   * Project the credentials belong to, used when no projectId setting is given
+   */
+  readonly projectId?: string;
+  /**
+   * Identifies these credentials in a shared TokenCache
+   * Without one, tokens are only cached in memory for the Firestore instance
+   */
+  readonly cacheKey?: string;
+}
+
+/**
+ * Storage for access tokens, keyed per credential and audience
+ * Implementations may be async so they can be backed by KV stores or files
+ * Only used for credentials that have a cacheKey, so tokens are never shared between different identities
+ */
+export interface TokenCache {
+  get(key: string): Promise<AccessToken | null | undefined> | AccessToken | null | undefined;
+  set(key: string, token: AccessToken): Promise<void> | void;
+}
+
+/**
+ * Default token cache that lives as long as the isolate or process
+ */
+export class MemoryTokenCache implements TokenCache {
+  private tokens = new Map<string, AccessToken>();
+
+  get(key: string): AccessToken | undefined {
+    return this.tokens.get(key);
   }
 
-  static fromDate(date: Date): Timestamp {
-    const ms = date.getTime();
-    return new Timestamp(Math.floor(ms / 1000), (ms % 1000) * 1000000);
+  set(key: string, token: AccessToken): void {
+    this.tokens.set(key, token);
   }
+}
 
-  static fromMillis(milliseconds: number): Timestamp {
-    return new Timestamp(Math.floor(milliseconds / 1000), (milliseconds % 1000) * 1000000);
+/**
+ * Workload identity federation credential configuration (external_account JSON)
+ */
+export interface ExternalAccountConfig {
+  type?: "external_account";
+  audience: string;
+  subject_token_type: string;
+  token_url?: string;
+  service_account_impersonation_url?: string;
+  service_account_impersonation?: {
+    token_lifetime_seconds?: number;
+  };
+  credential_source?: {
+    url?: string;
+    headers?: Record<string, string>;
+    file?: string;
+    environment_id?: string;
+    format?: {
+      type: "text" | "json";
+      subject_token_field_name?: string;
+    };
+  };
+  workforce_pool_user_project?: string;
+  quota_project_id?: string;
+}
+
+/**
+ * Parse an OAuth2 token endpoint response into an AccessToken
+ */
+async function readTokenResponse(response: Response, source: string): Promise<AccessToken> {
+  if (!response.ok) {
+    throw await toFirestoreError(response, `get access token from ${source}`);
   }
 
-  toDate(): Date {
-    return new Date(this.seconds * 1000 + this.nanoseconds / 1000000);
+  const data = (await response.json()) as { access_token: string; expires_in: number };
+
+  return {
+    token: data.access_token,
+    expiresAt: Date.now() + data.expires_in * 1000,
+  };
+}
+
+/**
+ * Pre-issued access token, e.g. minted by another service
+ * Without an expiry the token is assumed to stay valid
+ */
+export class StaticTokenCredential implements CredentialProvider {
+  constructor(private token: string, private expiresAt: number = Number.POSITIVE_INFINITY) {}
+
+  async getAccessToken(): Promise<AccessToken> {
+    return { token: this.token, expiresAt: this.expiresAt };
+  }
+}
+
+/**
+ * Service account key signed locally with jose and exchanged for an access token
+ * With `selfSignedJwt` the signed JWT is sent to the service directly, skipping the OAuth round trip
+ */
+export class ServiceAccountCredential implements CredentialProvider {
+  private serviceAccount: ServiceAccount;
+  private selfSignedTokens = new Map<string, AccessToken>();
+
+  constructor(serviceAccount: ServiceAccount, private options: { selfSignedJwt?: boolean } = {}) {
+    // Keys stored in env vars or secrets usually have escaped newlines
+    this.serviceAccount = { ...serviceAccount, private_key: serviceAccount.private_key?.replace(/\\n/g, "\n") };
   }
 
-  toMillis(): number {
-    return this.seconds * 1000 + this.nanoseconds / 1000000;
+  get projectId(): string | undefined {
+    return this.serviceAccount.project_id;
   }
 
-  isEqual(other: Timestamp): boolean {
-    return this.seconds === other.seconds && this.nanoseconds === other.nanoseconds;
+  get cacheKey(): string | undefined {
+    const mode = this.options.selfSignedJwt ? "jwt" : "oauth";
+    return this.serviceAccount.client_email && `service-account:${mode}:${this.serviceAccount.client_email}`;
   }
 
-  valueOf(): string {
-    return `Timestamp(seconds=${this.seconds}, nanoseconds=${this.nanoseconds})`;
+  async getAccessToken(context?: TokenRequestContext): Promise<AccessToken> {
+    const { client_email, private_key } = this.serviceAccount;
+
+    if (!client_email || !private_key) {
+      throw new Error("Invalid service account credentials");
+    }
+
+    if (this.options.selfSignedJwt && context?.audience) {
+      return this.getSelfSignedJwt(client_email, private_key, context.audience);
+    }
+
+    const tokenUri = this.serviceAccount.token_uri || DEFAULT_TOKEN_URI;
+
+    // Create JWT payload
+    const now = Math.floor(Date.now() / 1000);
+    const payload = {
+      iss: client_email,
+      sub: client_email,
+      aud: tokenUri,
+      iat: now,
+      exp: now + 3600,
+      scope: OAUTH_SCOPES.join(" "),
+    };
+
+    // Sign JWT using jose (WebCrypto compatible)
+    const jwt = await signJwt(payload, private_key);
+
+    // Exchange JWT for access token
+    const response = await (context?.fetch || fetch)(tokenUri, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
+        assertion: jwt,
+      }),
+      signal: context?.signal,
+    });
+
+    return readTokenResponse(response, "service account");
+  }
+
+  /**
+   * Sign a JWT whose audience is the target service itself
+   * Google APIs accept these as bearer tokens, so no token exchange is needed
+   */
+  private async getSelfSignedJwt(clientEmail: string, privateKey: string, audience: string): Promise<AccessToken> {
+    const cached = this.selfSignedTokens.get(audience);
+    if (cached && cached.expiresAt > Date.now() + TOKEN_EXPIRY_BUFFER_MS) {
+      return cached;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const payload = {
+      iss: clientEmail,
+      sub: clientEmail,
+      aud: audience,
+      iat: now,
+      exp: now + 3600,
+    };
+
+    const token = {
+      token: await signJwt(payload, privateKey, this.serviceAccount.private_key_id),
+      expiresAt: (now + 3600) * 1000,
+    };
+    this.selfSignedTokens.set(audience, token);
+
+    return token;
   }
 }
 
 /**
- * GeoPoint class for geographic coordinates
+ * Ambient identity from the GCE / Cloud Run / GKE metadata server
  */
-export class GeoPoint {
-  constructor(public latitude: number, public longitude: number) {
-    if (latitude < -90 || latitude > 90) {
-      throw new Error("Latitude must be between -90 and 90");
-    }
-    if (longitude < -180 || longitude > 180) {
-      throw new Error("Longitude must be between -180 and 180");
-    }
+export class MetadataServerCredential implements CredentialProvider {
+  constructor(private options: { serviceAccount?: string; host?: string } = {}) {}
+
+  get cacheKey(): string {
+    return `metadata:${this.options.serviceAccount || "default"}`;
   }
 
-  isEqual(other: GeoPoint): boolean {
-    return this.latitude === other.latitude && this.longitude === other.longitude;
+  async getAccessToken(context?: TokenRequestContext): Promise<AccessToken> {
+    const host = this.options.host || readEnv("GCE_METADATA_HOST") || DEFAULT_METADATA_HOST;
+    const account = this.options.serviceAccount || "default";
+    const scopes = encodeURIComponent(OAUTH_SCOPES.join(","));
+    const url = `http://${host}/computeMetadata/v1/instance/service-accounts/${account}/token?scopes=${scopes}`;
+
+    const response = await (context?.fetch || fetch)(url, {
+      headers: { "Metadata-Flavor": "Google" },
+      signal: context?.signal,
+    });
+
+    return readTokenResponse(response, "metadata server");
   }
 }
 
 /**
- * FieldPath class for field paths
+ * Workload identity federation: an external subject token is exchanged at STS
+ * and optionally used to impersonate a service account
  */
-export class FieldPath {
-  private segments: string[];
+export class ExternalAccountCredential implements CredentialProvider {
+  constructor(
+    private config: ExternalAccountConfig,
+    private options: {
+      /**
+       * Supplies the external subject token directly
+       * Needed where credential_source points at something the runtime cannot read, such as a file
+       */
+      subjectTokenSupplier?: () => Promise<string>;
+    } = {}
+  ) {}
+
+  get cacheKey(): string {
+    return `external-account:${this.config.service_account_impersonation_url || this.config.audience}`;
+  }
+
+  async getAccessToken(context?: TokenRequestContext): Promise<AccessToken> {
+    const fetchFn = context?.fetch || fetch;
+    const signal = context?.signal;
+    const subjectToken = await this.getSubjectToken(fetchFn, signal);
+
+    const body = new URLSearchParams({
+      grant_type: "urn:ietf:params:oauth:grant-type:token-exchange",
+      audience: this.config.audience,
+      scope: OAUTH_SCOPES[0],
+      requested_token_type: "urn:ietf:params:oauth:token-type:access_token",
+      subject_token: subjectToken,
+      subject_token_type: this.config.subject_token_type,
+    });
 
-  constructor(...segments: string[]) {
-    this.segments = segments;
+    // Workforce pools bill requests to a user project
+    if (this.config.workforce_pool_user_project) {
+      body.set("options", JSON.stringify({ userProject: this.config.workforce_pool_user_project }));
+    }
+
+    const response = await fetchFn(this.config.token_url || DEFAULT_STS_TOKEN_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body,
+      signal,
+    });
+
+    const stsToken = await readTokenResponse(response, "STS");
+
+    if (!this.config.service_account_impersonation_url) {
+      return stsToken;
+    }
+
+    return this.impersonate(stsToken.token, fetchFn, signal);
   }
 
-  static documentId(): FieldPath {
-    return new FieldPath("__name__");
+  private async impersonate(stsToken: string, fetchFn: FetchFunction, signal?: AbortSignal): Promise<AccessToken> {
+    const lifetime = this.config.service_account_impersonation?.token_lifetime_seconds || 3600;
+
+    const response = await fetchFn(this.config.service_account_impersonation_url!, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${stsToken}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ scope: OAUTH_SCOPES, lifetime: `${lifetime}s` }),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw await toFirestoreError(response, "impersonate service account");
+    }
+
+    const data = (await response.json()) as { accessToken: string; expireTime: string };
+
+    return {
+      token: data.accessToken,
+      expiresAt: new Date(data.expireTime).getTime(),
+    };
   }
 
-  isEqual(other: FieldPath): boolean {
-    return JSON.stringify(this.segments) === JSON.stringify(other.segments);
+  private async getSubjectToken(fetchFn: FetchFunction, signal?: AbortSignal): Promise<string> {
+    if (this.options.subjectTokenSupplier) {
+      return this.options.subjectTokenSupplier();
+    }
+
+    const source = this.config.credential_source;
+    if (!source?.url) {
+      throw new Error("Unsupported external account credential source. Only url sources are supported; pass subjectTokenSupplier for others");
+    }
+
+    const response = await fetchFn(source.url, { headers: source.headers, signal });
+
+    if (!response.ok) {
+      throw await toFirestoreError(response, "get external subject token");
+    }
+
+    if (source.format?.type === "json") {
+      const data = (await response.json()) as Record<string, any>;
+      return data[source.format.subject_token_field_name || "access_token"];
+    }
+
+    return response.text();
   }
 }
 
 /**
- * FieldValue class for special Firestore values
+ * User-supplied async callback returning a token
+ * A plain string has no known expiry, so the callback is invoked for every request
  */
-export class FieldValue {
-  private constructor() {}
+export class CallbackCredential implements CredentialProvider {
+  constructor(
+    private callback: () => Promise<string | AccessToken>,
+    private options: {
+      /**
+       * Identifies the callback's identity so its tokens can be stored in a shared TokenCache
+       */
+      cacheKey?: string;
+    } = {}
+  ) {}
 
-  static serverTimestamp(): any {
-    return SERVER_TIMESTAMP_SENTINEL;
+  get cacheKey(): string | undefined {
+    return this.options.cacheKey;
   }
 
-  static delete(): any {
-    return DELETE_FIELD_SENTINEL;
+  async getAccessToken(): Promise<AccessToken> {
+    const result = await this.callback();
+    return typeof result === "string" ? { token: result, expiresAt: 0 } : result;
   }
+}
 
-  static increment(n: number): any {
-    return new IncrementValue(n);
+/**
+ * Turn the `credentials` setting into a provider
+ * Plain JSON objects are treated as service account or external account keys
+ */
+function toCredentialProvider(
+  credentials: ServiceAccount | ExternalAccountConfig | CredentialProvider,
+  selfSignedJwt?: boolean
+): CredentialProvider {
+  if (typeof (credentials as CredentialProvider).getAccessToken === "function") {
+    return credentials as CredentialProvider;
   }
 
-  static arrayUnion(...elements: any[]): any {
-    return new ArrayUnionValue(elements);
+  if ((credentials as ExternalAccountConfig).type === "external_account") {
+    return new ExternalAccountCredential(credentials as ExternalAccountConfig);
   }
 
-  static arrayRemove(...elements: any[]): any {
-    return new ArrayRemoveValue(elements);
-  }
+  return new ServiceAccountCredential(credentials as ServiceAccount, { selfSignedJwt });
 }
 
 /**
- * AggregateField class for aggregate queries
+ * Get an access token from the instance's credential provider
+ * The emulator needs no real token, so the exchange is skipped entirely
  */
-export class AggregateField {
-  private constructor(public aggregateType: "count" | "sum" | "avg", public fieldPath?: string) {}
+async function getAccessToken(firestore: Firestore, signal: AbortSignal): Promise<string> {
+  const config = firestore._config;
 
-  static count(): AggregateField {
-    return new AggregateField("count");
+  if (config.emulator) {
+    return EMULATOR_TOKEN;
   }
 
-  static sum(field: string): AggregateField {
-    return new AggregateField("sum", field);
+  // Concurrent callers share a single lookup / token request
+  // It has its own deadline, so one caller giving up does not fail it for the others
+  if (!config.pendingToken) {
+    const controller = new AbortController();
+    const timer = setTimeout(
+      () => controller.abort(new FirestoreError("deadline-exceeded", `Failed to get access token: deadline of ${config.timeout}ms exceeded`)),
+      config.timeout
+    );
+    config.pendingToken = abortable(loadAccessToken(config, controller.signal), controller.signal).finally(() => {
+      clearTimeout(timer);
+      config.pendingToken = null;
+    });
   }
 
-  static average(field: string): AggregateField {
-    return new AggregateField("avg", field);
+  const accessToken = await abortable(config.pendingToken, signal);
+  return accessToken.token;
+}
+
+/**
+ * Settle with the promise, or reject with the signal's reason as soon as it aborts
+ * The promise itself keeps running for anyone else waiting on it
+ */
+function abortable<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
   }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
 }
 
 /**
- * Convert JavaScript values to Firestore field format
+ * Read a token from the cache, or fetch and cache a fresh one
+ * Cache failures are ignored so a broken KV store never blocks requests
  */
-function toFirestoreValue(value: any): any {
-  if (value === null || value === undefined) {
-    return { nullValue: null };
+async function loadAccessToken(config: FirestoreConfig, signal: AbortSignal): Promise<AccessToken> {
+  const audience = `${config.baseUrl}/`;
+  const key = `firestore-edge:${config.credentials.cacheKey || "instance"}:${audience}`;
+
+  const cached = await Promise.resolve()
+    .then(() => config.tokenCache.get(key))
+    .catch(() => null);
+
+  // Return cached token if still valid (with 5 minute buffer)
+  if (cached && cached.expiresAt > Date.now() + TOKEN_EXPIRY_BUFFER_MS) {
+    return cached;
   }
 
-  // Handle sentinel values
-  if (value === SERVER_TIMESTAMP_SENTINEL) {
-    return { timestampValue: new Date().toISOString() };
+  const accessToken = await config.credentials.getAccessToken({ audience, fetch: config.fetch, signal });
+
+  // Tokens without a usable lifetime (e.g. plain callback strings) are never cached
+  if (accessToken.expiresAt > Date.now() + TOKEN_EXPIRY_BUFFER_MS) {
+    await Promise.resolve()
+      .then(() => config.tokenCache.set(key, accessToken))
+      .catch(() => {
+        // Ignore cache write errors
+      });
+  }
+
+  return accessToken;
+}
+
+/**
+ * A single REST call made through sendRequest
+ */
+interface FirestoreRequest {
+  /** Describes the call in error messages, e.g. "get document" */
+  operation: string;
+  path?: string;
+  url: string;
+  method?: string;
+  body?: unknown;
+  /**
+   * Whether replaying the request after an unknown outcome is safe
+   * Non-idempotent requests are only retried when Firestore rejected them outright
+   */
+  idempotent: boolean;
+  /** Cancels the request, including any pending retries */
+  signal?: AbortSignal;
+}
+
+/**
+ * Send an authenticated request to the Firestore REST API and parse the JSON response
+ * Each attempt is bounded by the instance's timeout, and transient failures are
+ * retried according to its retry policy
+ */
+async function sendRequest(firestore: Firestore, request: FirestoreRequest): Promise<any> {
+  const { retry: policy, timeout, fetch: fetchFn } = firestore._config;
+
+  for (let attempt = 1; ; attempt++) {
+    throwIfCancelled(request);
+
+    // Aborted by either the per-attempt deadline or the caller's signal
+    // The deadline starts before the token is fetched so a hung credential source is bounded too
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeout);
+    const onAbort = () => controller.abort();
+    request.signal?.addEventListener("abort", onAbort, { once: true });
+
+    let error: FirestoreError;
+    let hasToken = false;
+
+    try {
+      const accessToken = await getAccessToken(firestore, controller.signal);
+      hasToken = true;
+
+      const headers: Record<string, string> = {
+        // Routes the request to the right database, as the official clients do
+        "x-goog-request-params": `project_id=${encodeURIComponent(firestore.projectId)}&database_id=${encodeURIComponent(firestore.databaseId)}`,
+        ...firestore._config.headers,
+        Authorization: `Bearer ${accessToken}`,
+      };
+      if (request.body !== undefined) {
+        headers["Content-Type"] = "application/json";
+      }
+
+      const response = await fetchFn(request.url, {
+        method: request.method || "GET",
+        headers,
+        body: request.body !== undefined ? JSON.stringify(request.body) : undefined,
+        signal: controller.signal,
+      });
+
+      if (response.ok) {
+        return await response.json();
+      }
+
+      error = await toFirestoreError(response, request.operation, request.path);
+    } catch (fetchError: any) {
+      throwIfCancelled(request);
+
+      // Credential errors are reported as they are, unless the attempt deadline cut the token request short
+      if (!hasToken && !controller.signal.aborted) {
+        throw fetchError;
+      }
+
+      // Connection resets, DNS failures, etc.
+      const code = controller.signal.aborted ? "deadline-exceeded" : "unavailable";
+      const reason = controller.signal.aborted ? `deadline of ${timeout}ms exceeded` : fetchError?.message || fetchError;
+      error = new FirestoreError(code, `Failed to ${request.operation}: ${reason}`, {
+        operation: request.operation,
+        path: request.path,
+        cause: fetchError,
+      });
+    } finally {
+      clearTimeout(timer);
+      request.signal?.removeEventListener("abort", onAbort);
+    }
+
+    if (!shouldRetry(policy, error, attempt, request.idempotent)) {
+      throw error;
+    }
+
+    await sleep(backoffDelay(policy, attempt), request.signal);
+  }
+}
+
+/**
+ * Surface a caller-aborted signal as a typed `cancelled` error
+ */
+function throwIfCancelled(request: FirestoreRequest): void {
+  if (request.signal?.aborted) {
+    throw new FirestoreError("cancelled", `Failed to ${request.operation}: request was cancelled`, {
+      operation: request.operation,
+      path: request.path,
+      cause: request.signal.reason,
+    });
+  }
+}
+
+/**
+ * Decide whether a failed attempt should be retried
+ * resource-exhausted means the request was rejected before it ran, so it is the
+ * only code retried for non-idempotent requests unless the policy opts in
+ */
+function shouldRetry(policy: Required<RetryPolicy>, error: FirestoreError, attempt: number, idempotent: boolean): boolean {
+  if (attempt >= policy.maxAttempts || !policy.retryableCodes.includes(error.code)) {
+    return false;
+  }
+
+  return idempotent || policy.retryNonIdempotent || error.code === "resource-exhausted";
+}
+
+/**
+ * Exponential backoff for the given attempt, with a random portion removed as jitter
+ */
+function backoffDelay(policy: Required<RetryPolicy>, attempt: number): number {
+  const delay = Math.min(policy.maxBackoffMs, policy.initialBackoffMs * Math.pow(policy.backoffMultiplier, attempt - 1));
+  return delay * (1 - policy.jitter * Math.random());
+}
+
+/**
+ * Wait before the next attempt, waking early if the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+  });
+}
+
+/**
+ * Field transforms that change the result when applied twice
+ */
+function isIdempotentTransform(transform: any): boolean {
+  return transform.increment === undefined;
+}
+
+/**
+ * Whether a commit write can be replayed safely
+ * Creates, updateTime preconditions and deletes requiring existence fail on replay even though the first attempt applied
+ */
+function isIdempotentWrite(write: any): boolean {
+  if (write.currentDocument?.exists === false || write.currentDocument?.updateTime) {
+    return false;
+  }
+
+  if (write.delete && write.currentDocument?.exists) {
+    return false;
+  }
+
+  return (write.updateTransforms || []).every(isIdempotentTransform);
+}
+
+/**
+ * Sentinel value for server timestamp
+ */
+const SERVER_TIMESTAMP_SENTINEL = Symbol("SERVER_TIMESTAMP");
+
+/**
+ * Sentinel value for field deletion
+ */
+const DELETE_FIELD_SENTINEL = Symbol("DELETE_FIELD");
+
+/**
+ * Sentinel value for increment
+ */
+class IncrementValue {
+  constructor(public operand: number) {}
+}
+
+/**
+ * Sentinel value for maximum
+ */
+class MaximumValue {
+  constructor(public operand: number) {}
+}
+
+/**
+ * Sentinel value for minimum
+ */
+class MinimumValue {
+  constructor(public operand: number) {}
+}
+
+/**
+ * Sentinel value for array union
+ */
+class ArrayUnionValue {
+  constructor(public elements: any[]) {}
+}
+
+/**
+ * Sentinel value for array remove
+ */
+class ArrayRemoveValue {
+  constructor(public elements: any[]) {}
+}
+
+/**
+ * Public name of a FieldValue sentinel, used in error messages
+ */
+function sentinelName(value: any): string | undefined {
+  if (value === SERVER_TIMESTAMP_SENTINEL) return "FieldValue.serverTimestamp()";
+  if (value === DELETE_FIELD_SENTINEL) return "FieldValue.delete()";
+  if (value instanceof IncrementValue) return "FieldValue.increment()";
+  if (value instanceof MaximumValue) return "FieldValue.maximum()";
+  if (value instanceof MinimumValue) return "FieldValue.minimum()";
+  if (value instanceof ArrayUnionValue) return "FieldValue.arrayUnion()";
+  if (value instanceof ArrayRemoveValue) return "FieldValue.arrayRemove()";
+  return undefined;
+}
+
+/**
+ * Range Firestore accepts for timestamps: 0001-01-01T00:00:00Z to 9999-12-31T23:59:59.999999999Z
+ */
+const MIN_TIMESTAMP_SECONDS = -62135596800;
+const MAX_TIMESTAMP_SECONDS = 253402300799;
+
+/**
+ * Firestore Timestamp class
+ * Keeps full nanosecond precision; Date-based conversions round to milliseconds
+ */
+export class Timestamp {
+  constructor(public seconds: number, public nanoseconds: number) {
+    if (!Number.isInteger(seconds) || seconds < MIN_TIMESTAMP_SECONDS || seconds > MAX_TIMESTAMP_SECONDS) {
+      throw new Error(`Timestamp seconds must be an integer between ${MIN_TIMESTAMP_SECONDS} and ${MAX_TIMESTAMP_SECONDS}, got ${seconds}`);
+    }
+    if (!Number.isInteger(nanoseconds) || nanoseconds < 0 || nanoseconds > 999999999) {
+      throw new Error(`Timestamp nanoseconds must be an integer between 0 and 999999999, got ${nanoseconds}`);
+    }
+  }
+
+  static now(): Timestamp {
+    return Timestamp.fromMillis(Date.now());
+  }
+
+  static fromDate(date: Date): Timestamp {
+    return Timestamp.fromMillis(date.getTime());
+  }
+
+  static fromMillis(milliseconds: number): Timestamp {
+    // Flooring keeps nanoseconds positive for instants before 1970
+    const seconds = Math.floor(milliseconds / 1000);
+    const nanoseconds = Math.floor((milliseconds - seconds * 1000) * 1000000);
+    return new Timestamp(seconds, nanoseconds);
+  }
+
+  /**
+   * Parse an RFC 3339 string such as "2024-05-01T12:34:56.123456789Z", keeping every fractional digit
+   */
+  static fromISOString(value: string): Timestamp {
+    const match = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2})(?:\.(\d{1,9}))?(Z|[+-]\d{2}:\d{2})$/i.exec(value);
+    const epochMillis = match ? Date.parse(`${match[1]}${match[3]}`) : NaN;
+    if (!match || Number.isNaN(epochMillis)) {
+      throw new Error(`Invalid RFC 3339 timestamp: "${value}"`);
+    }
+
+    return new Timestamp(epochMillis / 1000, Number((match[2] || "").padEnd(9, "0")));
+  }
+
+  toDate(): Date {
+    return new Date(this.toMillis());
+  }
+
+  toMillis(): number {
+    return this.seconds * 1000 + Math.floor(this.nanoseconds / 1000000);
+  }
+
+  /**
+   * RFC 3339 string in UTC with all nine fractional digits, as the REST API accepts
+   */
+  toISOString(): string {
+    const seconds = new Date(this.seconds * 1000).toISOString().replace(/\.\d{3}Z$/, "");
+    return `${seconds}.${String(this.nanoseconds).padStart(9, "0")}Z`;
+  }
+
+  toJSON(): string {
+    return this.toISOString();
+  }
+
+  /**
+   * Negative if this is before other, positive if after, zero if equal
+   */
+  compareTo(other: Timestamp): number {
+    return this.seconds !== other.seconds ? this.seconds - other.seconds : this.nanoseconds - other.nanoseconds;
+  }
+
+  isEqual(other: Timestamp): boolean {
+    return this.seconds === other.seconds && this.nanoseconds === other.nanoseconds;
+  }
+
+  /**
+   * Zero-padded so that <, > and string sorting order timestamps chronologically
+   */
+  valueOf(): string {
+    const offsetSeconds = this.seconds - MIN_TIMESTAMP_SECONDS;
+    return `${String(offsetSeconds).padStart(12, "0")}.${String(this.nanoseconds).padStart(9, "0")}`;
+  }
+
+  toString(): string {
+    return `Timestamp(seconds=${this.seconds}, nanoseconds=${this.nanoseconds})`;
+  }
+}
+
+/**
+ * GeoPoint class for geographic coordinates
+ */
+export class GeoPoint {
+  constructor(public latitude: number, public longitude: number) {
+    if (latitude < -90 || latitude > 90) {
+      throw new Error("Latitude must be between -90 and 90");
+    }
+    if (longitude < -180 || longitude > 180) {
+      throw new Error("Longitude must be between -180 and 180");
+    }
+  }
+
+  isEqual(other: GeoPoint): boolean {
+    return this.latitude === other.latitude && this.longitude === other.longitude;
+  }
+}
+
+/**
+ * Range of Firestore's integerValue
+ */
+const INT64_MIN = -(2n ** 63n);
+const INT64_MAX = 2n ** 63n - 1n;
+
+/**
+ * Immutable binary data, stored as a Firestore bytes value
+ */
+export class Bytes {
+  private constructor(private readonly bytes: Uint8Array) {}
+
+  static fromBase64String(base64: string): Bytes {
+    // Accept the URL-safe alphabet too, which the REST API may use
+    const binary = atob(base64.replace(/-/g, "+").replace(/_/g, "/"));
+    return new Bytes(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+  }
+
+  static fromUint8Array(array: Uint8Array): Bytes {
+    return new Bytes(new Uint8Array(array));
+  }
+
+  toBase64(): string {
+    let binary = "";
+    for (const byte of this.bytes) {
+      binary += String.fromCharCode(byte);
+    }
+    return btoa(binary);
+  }
+
+  toUint8Array(): Uint8Array {
+    return new Uint8Array(this.bytes);
+  }
+
+  isEqual(other: Bytes): boolean {
+    return this.bytes.length === other.bytes.length && this.bytes.every((byte, index) => byte === other.bytes[index]);
+  }
+}
+
+/**
+ * Vector embedding, stored as Firestore's vector type so it can be used in nearest-neighbour search
+ */
+export class VectorValue {
+  private values: number[];
+
+  constructor(values: number[] = []) {
+    this.values = [...values];
+  }
+
+  toArray(): number[] {
+    return [...this.values];
+  }
+
+  isEqual(other: VectorValue): boolean {
+    return this.values.length === other.values.length && this.values.every((value, index) => value === other.values[index]);
+  }
+}
+
+/**
+ * FieldPath class for field paths
+ */
+export class FieldPath {
+  readonly segments: string[];
+
+  constructor(...segments: string[]) {
+    if (segments.length === 0 || segments.some((segment) => typeof segment !== "string" || segment === "")) {
+      throw new Error("FieldPath segments must be non-empty strings");
+    }
+
+    this.segments = segments;
+  }
+
+  static documentId(): FieldPath {
+    return new FieldPath("__name__");
+  }
+
+  /**
+   * Parse a dotted path such as "address.city"
+   * Field names containing dots or reserved characters need the segment constructor instead
+   */
+  static fromDotSeparatedString(path: string): FieldPath {
+    if (/[~*/[\]]/.test(path) || path.split(".").some((segment) => segment === "")) {
+      throw new Error(
+        `Invalid field path "${path}": paths must not be empty, contain empty segments, or contain "~*/[]". Use new FieldPath(...segments) for such field names`
+      );
+    }
+
+    return new FieldPath(...path.split("."));
+  }
+
+  /**
+   * Path in the form the REST API expects, with segments that are not plain identifiers quoted in backticks
+   */
+  get formattedName(): string {
+    return this.segments
+      .map((segment) => (/^[a-zA-Z_][a-zA-Z_0-9]*$/.test(segment) ? segment : `\`${segment.replace(/\\/g, "\\\\").replace(/`/g, "\\`")}\``))
+      .join(".");
+  }
+
+  /**
+   * Whether this path equals other or is one of its ancestors
+   */
+  isPrefixOf(other: FieldPath): boolean {
+    return this.segments.length <= other.segments.length && this.segments.every((segment, index) => segment === other.segments[index]);
+  }
+
+  isEqual(other: FieldPath): boolean {
+    return JSON.stringify(this.segments) === JSON.stringify(other.segments);
+  }
+
+  toString(): string {
+    return this.formattedName;
+  }
+}
+
+/**
+ * Accept either a dotted string or a FieldPath wherever a field is named
+ */
+function toFieldPath(field: string | FieldPath): FieldPath {
+  return field instanceof FieldPath ? field : FieldPath.fromDotSeparatedString(field);
+}
+
+/**
+ * Read a possibly nested field from decoded document data
+ */
+function getFieldValue(data: DocumentData, field: string | FieldPath): any {
+  let value: any = data;
+
+  for (const segment of toFieldPath(field).segments) {
+    if (value === null || typeof value !== "object" || value.constructor !== Object) {
+      return undefined;
+    }
+    value = value[segment];
+  }
+
+  return value;
+}
+
+/**
+ * FieldValue class for special Firestore values
+ */
+export class FieldValue {
+  private constructor() {}
+
+  static serverTimestamp(): any {
+    return SERVER_TIMESTAMP_SENTINEL;
+  }
+
+  static delete(): any {
+    return DELETE_FIELD_SENTINEL;
+  }
+
+  static increment(n: number): any {
+    return new IncrementValue(n);
+  }
+
+  /**
+   * Set the field to n if n is greater than the current value (or the field is missing)
+   */
+  static maximum(n: number): any {
+    return new MaximumValue(n);
+  }
+
+  /**
+   * Set the field to n if n is less than the current value (or the field is missing)
+   */
+  static minimum(n: number): any {
+    return new MinimumValue(n);
+  }
+
+  static vector(values?: number[]): VectorValue {
+    return new VectorValue(values);
+  }
+
+  static arrayUnion(...elements: any[]): any {
+    return new ArrayUnionValue(elements);
+  }
+
+  static arrayRemove(...elements: any[]): any {
+    return new ArrayRemoveValue(elements);
+  }
+}
+
+/**
+ * AggregateField class for aggregate queries
+ */
+export class AggregateField {
+  private constructor(public aggregateType: "count" | "sum" | "avg", public fieldPath?: string) {}
+
+  static count(): AggregateField {
+    return new AggregateField("count");
+  }
+
+  static sum(field: string): AggregateField {
+    return new AggregateField("sum", field);
+  }
+
+  static average(field: string): AggregateField {
+    return new AggregateField("avg", field);
+  }
+}
+
+export type WhereFilterOp = "<" | "<=" | "==" | "!=" | ">=" | ">" | "array-contains" | "in" | "not-in" | "array-contains-any";
+
+const INEQUALITY_OPERATORS: WhereFilterOp[] = ["<", "<=", ">", ">=", "!=", "not-in"];
+
+// Firestore's limits on the number of values in a single list filter
+const LIST_OPERATOR_LIMITS: Partial<Record<WhereFilterOp, number>> = { in: 30, "array-contains-any": 30, "not-in": 10 };
+
+const FILTER_OPERATORS: Record<WhereFilterOp, string> = {
+  "<": "LESS_THAN",
+  "<=": "LESS_THAN_OR_EQUAL",
+  "==": "EQUAL",
+  "!=": "NOT_EQUAL",
+  ">=": "GREATER_THAN_OR_EQUAL",
+  ">": "GREATER_THAN",
+  "array-contains": "ARRAY_CONTAINS",
+  in: "IN",
+  "not-in": "NOT_IN",
+  "array-contains-any": "ARRAY_CONTAINS_ANY",
+};
+
+/**
+ * A where condition that can be combined with others using and() / or()
+ * Pass the result to Query.where()
+ */
+export class Filter {
+  protected constructor() {}
+
+  static where(field: string | FieldPath, opStr: WhereFilterOp, value: any): Filter {
+    if (!Object.prototype.hasOwnProperty.call(FILTER_OPERATORS, opStr)) {
+      throw new Error(`Invalid query operator "${opStr}". Supported operators are: ${Object.keys(FILTER_OPERATORS).join(", ")}`);
+    }
+    const listLimit = LIST_OPERATOR_LIMITS[opStr];
+    if (listLimit !== undefined && (!Array.isArray(value) || value.length === 0 || value.length > listLimit)) {
+      throw new Error(`A "${opStr}" filter requires an array of 1 to ${listLimit} values, got ${Array.isArray(value) ? `${value.length} values` : typeof value}`);
+    }
+    return new FieldFilter(toFieldPath(field).formattedName, opStr, value);
+  }
+
+  static and(...filters: Filter[]): Filter {
+    return new CompositeFilter("AND", filters);
+  }
+
+  static or(...filters: Filter[]): Filter {
+    return new CompositeFilter("OR", filters);
+  }
+}
+
+class FieldFilter extends Filter {
+  constructor(readonly field: string, readonly opStr: WhereFilterOp, readonly value: any) {
+    super();
+  }
+}
+
+class CompositeFilter extends Filter {
+  constructor(readonly op: "AND" | "OR", readonly filters: Filter[]) {
+    super();
+  }
+}
+
+/**
+ * Collect the field filters of a filter tree in order
+ */
+function fieldFilters(filter: Filter): FieldFilter[] {
+  return filter instanceof CompositeFilter ? filter.filters.flatMap(fieldFilters) : [filter as FieldFilter];
+}
+
+/**
+ * Convert JavaScript values to Firestore field format
+ */
+function toFirestoreValue(value: any): any {
+  if (value === null || value === undefined) {
+    return { nullValue: null };
+  }
+
+  // Write data is split into fields and transforms before encoding, so a sentinel here sits in an array or a query
+  const sentinel = sentinelName(value);
+  if (sentinel) {
+    throw new Error(`${sentinel} can only be used as a field value in set(), create() or update(), not inside arrays or queries`);
+  }
+
+  if (value instanceof Timestamp) {
+    return { timestampValue: value.toISOString() };
+  }
+
+  if (value instanceof DocumentReference) {
+    return { referenceValue: value.formattedName };
+  }
+
+  if (value instanceof VectorValue) {
+    return {
+      mapValue: {
+        fields: {
+          __type__: { stringValue: "__vector__" },
+          value: { arrayValue: { values: value.toArray().map((item) => ({ doubleValue: item })) } },
+        },
+      },
+    };
+  }
+
+  if (value instanceof GeoPoint) {
+    return {
+      geoPointValue: {
+        latitude: value.latitude,
+        longitude: value.longitude,
+      },
+    };
+  }
+
+  if (typeof value === "string") {
+    return { stringValue: value };
+  }
+
+  if (typeof value === "boolean") {
+    return { booleanValue: value };
+  }
+
+  if (typeof value === "number") {
+    // Firestore distinguishes between integers and doubles
+    // -0 is an integer to Number.isInteger, but only a double keeps its sign
+    if (Number.isInteger(value) && value >= -9007199254740991 && value <= 9007199254740991 && !Object.is(value, -0)) {
+      return { integerValue: value.toString() };
+    }
+    // JSON has no literal for NaN, the infinities or -0; the REST API accepts them as strings
+    if (Object.is(value, -0)) {
+      return { doubleValue: "-0" };
+    }
+    return { doubleValue: Number.isFinite(value) ? value : String(value) };
+  }
+
+  if (typeof value === "bigint") {
+    if (value < INT64_MIN || value > INT64_MAX) {
+      throw new Error(`BigInt ${value} is outside the 64-bit integer range Firestore can store`);
+    }
+    return { integerValue: value.toString() };
+  }
+
+  if (value instanceof Bytes) {
+    return { bytesValue: value.toBase64() };
+  }
+
+  if (value instanceof Uint8Array) {
+    return { bytesValue: Bytes.fromUint8Array(value).toBase64() };
+  }
+
+  if (value instanceof Date) {
+    return { timestampValue: value.toISOString() };
+  }
+
+  if (Array.isArray(value)) {
+    return {
+      arrayValue: {
+        values: value.map((item) => toFirestoreValue(item)),
+      },
+    };
+  }
+
+  if (typeof value === "object") {
+    const fields: any = {};
+    for (const [key, val] of Object.entries(value)) {
+      fields[key] = toFirestoreValue(val);
+    }
+    return { mapValue: { fields } };
+  }
+
+  throw new Error(`Unsupported value type: ${typeof value}`);
+}
+
+/**
+ * Convert Firestore field format to JavaScript values
+ */
+function fromFirestoreValue(field: any, firestore: Firestore): any {
+  if (!field) return null;
+
+  if (field.nullValue !== undefined) return null;
+  if (field.booleanValue !== undefined) return field.booleanValue;
+  if (field.integerValue !== undefined) return firestore._config.useBigInt ? BigInt(field.integerValue) : Number(field.integerValue);
+  // NaN and the infinities arrive as strings because JSON has no literal for them
+  if (field.doubleValue !== undefined) return Number(field.doubleValue);
+  if (field.stringValue !== undefined) return field.stringValue;
+  if (field.bytesValue !== undefined) return Bytes.fromBase64String(field.bytesValue);
+  if (field.referenceValue !== undefined) return documentRefFromName(firestore, field.referenceValue);
+
+  if (field.timestampValue !== undefined) return Timestamp.fromISOString(field.timestampValue);
+
+  // Zero coordinates are omitted from the JSON
+  if (field.geoPointValue !== undefined) {
+    return new GeoPoint(field.geoPointValue.latitude ?? 0, field.geoPointValue.longitude ?? 0);
+  }
+
+  if (field.arrayValue) {
+    return field.arrayValue.values?.map((v: any) => fromFirestoreValue(v, firestore)) || [];
+  }
+
+  if (field.mapValue) {
+    if (field.mapValue.fields?.__type__?.stringValue === "__vector__") {
+      return new VectorValue(field.mapValue.fields.value?.arrayValue?.values?.map((v: any) => fromFirestoreValue(v, firestore)) || []);
+    }
+
+    const result: any = {};
+    for (const [key, value] of Object.entries(field.mapValue.fields || {})) {
+      result[key] = fromFirestoreValue(value, firestore);
+    }
+    return result;
+  }
+
+  throw new Error(`Unsupported Firestore value: ${JSON.stringify(field)}`);
+}
+
+/**
+ * Decode a REST Document's fields into plain data
+ */
+function decodeDocument(firestore: Firestore, doc: { name: string; fields?: any }): DocumentData {
+  // The ID belongs on snapshot.id; includeIdInData restores the old behaviour of mixing it in
+  const result: any = firestore._config.includeIdInData ? { id: doc.name.split("/").pop() } : {};
+  for (const [key, value] of Object.entries(doc.fields || {})) {
+    result[key] = fromFirestoreValue(value, firestore);
+  }
+
+  return result;
+}
+
+/**
+ * Build a snapshot from a batchGet / runQuery result
+ * Carries the document's server timestamps and the response's read time
+ */
+function buildSnapshot<T>(ref: DocumentReference<T>, doc: any | undefined, readTime?: string): DocumentSnapshot<T> {
+  const read = readTime ? Timestamp.fromISOString(readTime) : undefined;
+
+  if (!doc) {
+    return {
+      id: ref.id,
+      exists: false,
+      ref,
+      data: () => undefined,
+      get: () => undefined,
+      readTime: read,
+    };
+  }
+
+  const data = decodeDocument(ref.firestore, doc);
+
+  const snapshot: QueryDocumentSnapshot<any> = {
+    id: ref.id,
+    exists: true,
+    ref,
+    data: () => data,
+    get: (fieldPath: string | FieldPath) => getFieldValue(data, fieldPath),
+    createTime: Timestamp.fromISOString(doc.createTime),
+    updateTime: Timestamp.fromISOString(doc.updateTime),
+    readTime: read as Timestamp,
+  };
+
+  // The converter sees the stored data through an untyped snapshot, as in the Admin SDK
+  const converter = ref._converter;
+  if (converter) {
+    const stored = { ...snapshot, ref: ref.withConverter(null) };
+    snapshot.data = () => converter.fromFirestore(stored);
+  }
+
+  return snapshot;
+}
+
+/**
+ * Map a commit response to one WriteResult per write, in the order the writes were sent
+ * Writes that leave no document behind (deletes) report the commit time instead
+ */
+function toWriteResults(firestore: Firestore, response: { writeResults?: any[]; commitTime: string }, writes: any[]): WriteResult[] {
+  const writeResults = response.writeResults || [];
+
+  return writes.map((write, index) => {
+    const result: WriteResult = {
+      writeTime: Timestamp.fromISOString(writeResults[index]?.updateTime || response.commitTime),
+    };
+
+    // transformResults follow the order of the write's updateTransforms
+    const transforms: any[] = write.updateTransforms || [];
+    const values: any[] = writeResults[index]?.transformResults || [];
+    if (transforms.length > 0) {
+      result.transformResults = Object.fromEntries(transforms.map((transform, position) => [transform.fieldPath, fromFirestoreValue(values[position], firestore)]));
+    }
+
+    return result;
+  });
+}
+
+/**
+ * Resolve a full document resource name back to a reference
+ */
+function documentRefFromName<T = DocumentData>(
+  firestore: Firestore,
+  name: string,
+  converter: FirestoreDataConverter<T> | null = null,
+  schema: AttachedSchema | null = null
+): DocumentReference<T> {
+  const match = /^projects\/([^/]+)\/databases\/([^/]+)\/documents\/(.+)$/.exec(name);
+  if (!match) {
+    throw new Error(`Invalid document resource name: "${name}"`);
+  }
+
+  // References into another project or database stay bound to it, so writing them back is lossless
+  const [, projectId, databaseId, path] = match;
+  const owner = projectId === firestore.projectId && databaseId === firestore.databaseId ? firestore : firestore._forDatabase(projectId, databaseId);
+
+  const segments = path.split("/");
+  return new DocumentReference(segments.slice(0, -1).join("/"), segments[segments.length - 1], owner, converter, schema);
+}
+
+/**
+ * Validate a value against a schema, resolving to the schema's output
+ */
+async function validateWithSchema(schema: StandardSchemaV1, value: unknown, operation: string, path: string): Promise<any> {
+  const result = await schema["~standard"].validate(value);
+  if (!result.issues) {
+    return result.value;
+  }
+
+  const issues = result.issues.map((issue) => ({
+    path: (issue.path || []).map((segment) => String(typeof segment === "object" ? segment.key : segment)).join("."),
+    message: issue.message,
+  }));
+  const summary = issues.map((issue) => (issue.path ? `${issue.path}: ${issue.message}` : issue.message)).join("; ");
+
+  throw new FirestoreError("validation-failed", `Document ${path} does not match its schema: ${summary}`, { operation, path, issues });
+}
+
+/**
+ * Validate a full-document write against the reference's schema, if it has one
+ * Resolves to the schema's output, which is what gets written
+ */
+async function validateWrite<T>(ref: DocumentReference<T>, data: T, operation: string): Promise<T> {
+  return ref._schema ? validateWithSchema(ref._schema.schema, data, operation, ref.path) : data;
+}
+
+/**
+ * Queue a set() write for a batch or transaction, validating full-document writes against the schema
+ */
+function queueSetWrite<T>(writes: any[], pendingWrites: Promise<void>[], ref: DocumentReference<T>, data: T | Partial<T>, options?: SetOptions): void {
+  if (ref._schema && !options?.merge && !options?.mergeFields) {
+    queueValidatedWrite(writes, pendingWrites, validateWrite(ref, data as T, "set document"), (valid) =>
+      buildSetWrite(ref.formattedName, toFirestoreData(ref, valid))
+    );
+    return;
+  }
+
+  writes.push(buildSetWrite(ref.formattedName, toFirestoreData(ref, data, options), options));
+}
+
+/**
+ * Queue a create() write for a batch or transaction, validating it against the schema
+ */
+function queueCreateWrite<T>(writes: any[], pendingWrites: Promise<void>[], ref: DocumentReference<T>, data: T): void {
+  if (ref._schema) {
+    queueValidatedWrite(writes, pendingWrites, validateWrite(ref, data, "create document"), (valid) =>
+      buildCreateWrite(ref.formattedName, toFirestoreData(ref, valid))
+    );
+    return;
+  }
+
+  writes.push(buildCreateWrite(ref.formattedName, toFirestoreData(ref, data)));
+}
+
+/**
+ * Reserve the write's slot now so order is kept, and fill it once schema validation resolves
+ * Failures surface from commit(), which awaits pendingWrites
+ */
+function queueValidatedWrite<T>(writes: any[], pendingWrites: Promise<void>[], validation: Promise<T>, build: (valid: T) => any): void {
+  const index = writes.push(undefined) - 1;
+  const pending = validation.then((valid) => {
+    writes[index] = build(valid);
+  });
+
+  // Handled when commit() awaits it; avoids an unhandled rejection if commit is never called
+  pending.catch(() => {});
+  pendingWrites.push(pending);
+}
+
+/**
+ * Validate a read document when its reference asks for it, swapping data() for the schema's output
+ */
+async function validateRead<S extends DocumentSnapshot<any>>(snapshot: S, operation: string): Promise<S> {
+  const schema = snapshot.ref._schema;
+  if (!schema?.validateReads || !snapshot.exists) {
+    return snapshot;
+  }
+
+  const parsed = await validateWithSchema(schema.schema, snapshot.data(), operation, snapshot.ref.path);
+  snapshot.data = () => parsed;
+  return snapshot;
+}
+
+/**
+ * Run model data through the reference's converter, if it has one, before it is encoded
+ */
+function toFirestoreData<T>(ref: DocumentReference<T>, data: T | Partial<T>, options?: SetOptions): DocumentData {
+  const converter = ref._converter;
+  if (!converter) {
+    return data as DocumentData;
+  }
+
+  return options?.merge || options?.mergeFields ? converter.toFirestore(data as Partial<T>, options) : converter.toFirestore(data as T);
+}
+
+/**
+ * Convert a Precondition to the REST currentDocument shape
+ * Falls back to the write's default condition when the caller did not pass one
+ */
+function toCurrentDocument(precondition: Precondition = {}, fallback?: { exists: boolean }): any {
+  if (precondition.lastUpdateTime !== undefined && precondition.exists !== undefined) {
+    throw new Error("A precondition can specify either lastUpdateTime or exists, not both");
   }
 
-  if (value === DELETE_FIELD_SENTINEL) {
-    return null; // Will be handled specially in transforms
+  if (precondition.lastUpdateTime !== undefined) {
+    return { updateTime: precondition.lastUpdateTime.toISOString() };
   }
 
-  if (value instanceof IncrementValue) {
-    return { integerValue: value.operand.toString() }; // Transform will handle this
+  if (precondition.exists !== undefined) {
+    return { exists: precondition.exists };
   }
 
-  if (value instanceof ArrayUnionValue) {
+  return fallback;
+}
+
+/**
+ * The field transform a sentinel stands for, or undefined for ordinary values
+ */
+function toFieldTransform(fieldPath: string, value: any): any | undefined {
+  if (value === SERVER_TIMESTAMP_SENTINEL) {
     return {
-      arrayValue: {
-        values: value.elements.map((item) => toFirestoreValue(item)),
-      },
+      fieldPath,
+      setToServerValue: "REQUEST_TIME",
     };
   }
 
-  if (value instanceof ArrayRemoveValue) {
+  if (value instanceof IncrementValue) {
     return {
-      arrayValue: {
-        values: value.elements.map((item) => toFirestoreValue(item)),
-      },
+      fieldPath,
+      increment: toFirestoreValue(value.operand),
     };
   }
 
-  if (value instanceof Timestamp) {
-    const date = value.toDate();
-    return { timestampValue: date.toISOString() };
-  }
-
-  if (value instanceof GeoPoint) {
+  if (value instanceof MaximumValue) {
     return {
-      geoPointValue: {
-        latitude: value.latitude,
-        longitude: value.longitude,
-      },
+      fieldPath,
+      maximum: toFirestoreValue(value.operand),
     };
   }
 
-  if (typeof value === "string") {
-    return { stringValue: value };
-  }
-
-  if (typeof value === "boolean") {
-    return { booleanValue: value };
-  }
-
-  if (typeof value === "number") {
-    // Firestore distinguishes between integers and doubles
-    if (Number.isInteger(value) && value >= -9007199254740991 && value <= 9007199254740991) {
-      return { integerValue: value.toString() };
-    }
-    return { doubleValue: value };
-  }
-
-  if (value instanceof Date) {
-    return { timestampValue: value.toISOString() };
+  if (value instanceof MinimumValue) {
+    return {
+      fieldPath,
+      minimum: toFirestoreValue(value.operand),
+    };
   }
 
-  if (Array.isArray(value)) {
+  if (value instanceof ArrayUnionValue) {
     return {
-      arrayValue: {
-        values: value.map((item) => toFirestoreValue(item)),
+      fieldPath,
+      appendMissingElements: {
+        values: value.elements.map((item) => toFirestoreValue(item)),
       },
     };
   }
 
-  if (typeof value === "object") {
-    const fields: any = {};
-    for (const [key, val] of Object.entries(value)) {
-      fields[key] = toFirestoreValue(val);
-    }
-    return { mapValue: { fields } };
+  if (value instanceof ArrayRemoveValue) {
+    return {
+      fieldPath,
+      removeAllFromArray: {
+        values: value.elements.map((item) => toFirestoreValue(item)),
+      },
+    };
   }
 
-  throw new Error(`Unsupported value type: ${typeof value}`);
+  return undefined;
 }
 
 /**
- * Helper function to convert plain timestamp objects to Timestamp instances
- * Handles the case where timestamps come back as { _seconds, _nanoseconds }
+ * Plain objects are walked field by field; class instances and other values are encoded whole
  */
-function convertTimestampObjects(obj: any): any {
-  if (obj === null || obj === undefined) {
-    return obj;
-  }
-
-  // Check if this is a timestamp-like object
-  if (typeof obj === "object" && "_seconds" in obj && "_nanoseconds" in obj) {
-    return new Timestamp(obj._seconds, obj._nanoseconds);
-  }
-
-  // If it's an array, process each element
-  if (Array.isArray(obj)) {
-    return obj.map((item) => convertTimestampObjects(item));
-  }
-
-  // If it's a Timestamp instance, return as-is
-  if (obj instanceof Timestamp) {
-    return obj;
+function isPlainObject(value: any): boolean {
+  if (value === null || typeof value !== "object") {
+    return false;
   }
 
-  // If it's a plain object, recursively process its properties
-  if (typeof obj === "object" && obj.constructor === Object) {
-    const result: any = {};
-    for (const [key, value] of Object.entries(obj)) {
-      result[key] = convertTimestampObjects(value);
-    }
-    return result;
-  }
-
-  // Return other types as-is
-  return obj;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
 }
 
 /**
- * Convert Firestore field format to JavaScript values
+ * Walk write data into encoded fields, field transforms and the field paths for the update mask
+ * Sentinels at any depth become transforms on their nested path. The mask holds each entry's path
+ * for update, every leaf for a merging set, and is unused for a plain set
  */
-function fromFirestoreValue(field: any): any {
-  if (!field) return null;
-
-  if (field.nullValue !== undefined) return null;
-  if (field.booleanValue !== undefined) return field.booleanValue;
-  if (field.integerValue !== undefined) return parseInt(field.integerValue, 10);
-  if (field.doubleValue !== undefined) return field.doubleValue;
-  if (field.stringValue !== undefined) return field.stringValue;
+function encodeWriteData(entries: [FieldPath, any][], kind: "set" | "merge" | "update"): { fields: any; transforms: any[]; fieldPaths: string[] } {
+  const fields: any = {};
+  const transforms: any[] = [];
+  const fieldPaths: string[] = [];
 
-  if (field.timestampValue !== undefined) {
-    const date = new Date(field.timestampValue);
-    const ms = date.getTime();
-    return new Timestamp(Math.floor(ms / 1000), (ms % 1000) * 1000000);
-  }
+  const encode = (path: FieldPath, value: any, topLevel: boolean): any => {
+    if (value === DELETE_FIELD_SENTINEL) {
+      if (kind === "set") {
+        throw new Error(`FieldValue.delete() at "${path.formattedName}" can only be used in update() or set() with merge`);
+      }
+      if (kind === "update" && !topLevel) {
+        throw new Error(`FieldValue.delete() at "${path.formattedName}" must be a top-level update() value; use a dotted path to delete nested fields`);
+      }
 
-  // Handle plain timestamp objects with _seconds and _nanoseconds
-  // This happens when timestamps come back from certain Firestore API responses
-  if (field._seconds !== undefined && field._nanoseconds !== undefined) {
-    return new Timestamp(field._seconds, field._nanoseconds);
-  }
+      fieldPaths.push(path.formattedName);
+      return undefined;
+    }
 
-  if (field.arrayValue) {
-    return field.arrayValue.values?.map((v: any) => fromFirestoreValue(v)) || [];
-  }
+    const transform = toFieldTransform(path.formattedName, value);
+    if (transform) {
+      transforms.push(transform);
+      return undefined;
+    }
 
-  if (field.mapValue) {
-    const result: any = {};
-    for (const [key, value] of Object.entries(field.mapValue.fields || {})) {
-      result[key] = fromFirestoreValue(value);
+    const isMap = isPlainObject(value);
+    if (kind === "update" ? topLevel : kind === "merge" && (!isMap || Object.keys(value).length === 0)) {
+      fieldPaths.push(path.formattedName);
     }
-    return result;
-  }
 
-  // Handle plain objects that might contain timestamp-like structures
-  if (typeof field === "object" && field !== null && !Array.isArray(field)) {
-    // Check if this looks like a plain timestamp object
-    if ("_seconds" in field && "_nanoseconds" in field) {
-      return new Timestamp(field._seconds, field._nanoseconds);
+    if (!isMap) {
+      return toFirestoreValue(value);
     }
 
-    // Recursively process object properties to find timestamps
-    const result: any = {};
-    for (const [key, value] of Object.entries(field)) {
-      result[key] = fromFirestoreValue(value);
+    const mapFields: any = {};
+    for (const [key, child] of Object.entries(value)) {
+      const encoded = encode(new FieldPath(...path.segments, key), child, false);
+      if (encoded !== undefined) {
+        mapFields[key] = encoded;
+      }
     }
-    return result;
-  }
 
-  if (field.geoPointValue) {
-    return new GeoPoint(field.geoPointValue.latitude, field.geoPointValue.longitude);
-  }
+    return { mapValue: { fields: mapFields } };
+  };
+
+  for (const [path, value] of entries) {
+    const encoded = encode(path, value, true);
+    if (encoded === undefined) {
+      continue;
+    }
 
-  if (field.referenceValue) {
-    return field.referenceValue;
+    let target = fields;
+    for (const segment of path.segments.slice(0, -1)) {
+      target[segment] = target[segment] || { mapValue: { fields: {} } };
+      target = target[segment].mapValue.fields;
+    }
+    target[path.segments[path.segments.length - 1]] = encoded;
   }
 
-  return field;
+  return { fields, transforms, fieldPaths };
 }
 
 /**
- * Get a single Firestore document using REST API
+ * Treat each key of set()/create() data as a single field name, even when it contains dots
  */
-async function getDocument(collection: string, docId: string) {
-  const accessToken = await getAccessToken();
-  const url = `https://firestore.googleapis.com/v1/projects/${FIREBASE_PROJECT_ID}/databases/(default)/documents/${collection}/${docId}`;
+function dataEntries(data: DocumentData): [FieldPath, any][] {
+  return Object.entries(data).map(([key, value]) => [new FieldPath(key), value]);
+}
 
-  const response = await fetch(url, {
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-    },
-  });
+/**
+ * Normalize both update() call forms to field path / value pairs plus the trailing options
+ * update(data, options?) reads keys as dotted paths; update(field, value, ...moreFieldsAndValues, options?) also takes FieldPath
+ */
+function parseUpdateArgs(dataOrField: DocumentData | string | FieldPath, rest: any[]): { entries: [FieldPath, any][]; options: any } {
+  let entries: [FieldPath, any][];
+  let options: any;
+
+  if (typeof dataOrField === "string" || dataOrField instanceof FieldPath) {
+    const args = [dataOrField, ...rest];
+    if (args.length % 2 === 1) {
+      options = args.pop();
+    }
 
-  if (!response.ok) {
-    if (response.status === 404) {
-      return null;
+    entries = [];
+    for (let i = 0; i < args.length; i += 2) {
+      entries.push([toFieldPath(args[i]), args[i + 1]]);
     }
-    const error = await response.text();
-    throw new Error(`Failed to get document: ${error}`);
+  } else {
+    entries = Object.entries(dataOrField).map(([key, value]) => [FieldPath.fromDotSeparatedString(key), value]);
+    options = rest[0];
   }
 
-  const doc = (await response.json()) as { name: string; fields?: any };
-
-  const result: any = { id: doc.name.split("/").pop() };
-  for (const [key, value] of Object.entries(doc.fields || {})) {
-    result[key] = fromFirestoreValue(value);
+  // Writing both "a" and "a.b" in one update is ambiguous, and the server rejects the mask
+  for (const [path] of entries) {
+    const conflict = entries.find(([other]) => other !== path && path.isPrefixOf(other));
+    if (conflict) {
+      throw new Error(`Field path "${path.formattedName}" conflicts with "${conflict[0].formattedName}" in the same update`);
+    }
   }
 
-  // Ensure all timestamp-like objects are properly converted
-  return convertTimestampObjects(result);
+  return { entries, options: options || {} };
 }
 
 /**
- * Update a Firestore document using REST API
+ * Build the commit write for set(), shared by direct, batch and transaction writes
+ * Without merge the write has no mask, so the server replaces the whole document in one step
  */
-async function updateDocument(collection: string, docId: string, data: any) {
-  const accessToken = await getAccessToken();
-
-  const fields: any = {};
-  const transforms: any[] = [];
-  const updateMask: string[] = [];
-
-  for (const [key, value] of Object.entries(data)) {
-    if (value === DELETE_FIELD_SENTINEL) {
-      // For delete, just add to updateMask but not to fields
-      updateMask.push(key);
-      continue;
-    }
-
-    if (value === SERVER_TIMESTAMP_SENTINEL) {
-      transforms.push({
-        fieldPath: key,
-        setToServerValue: "REQUEST_TIME",
-      });
-      continue;
-    }
+function buildSetWrite(name: string, data: DocumentData, options: SetOptions = {}): any {
+  const encoded = encodeWriteData(dataEntries(data), options.merge || options.mergeFields ? "merge" : "set");
+  const { fields, fieldPaths } = encoded;
+  let { transforms } = encoded;
+
+  const write: any = {
+    update: {
+      name,
+      fields,
+    },
+  };
 
-    if (value instanceof IncrementValue) {
-      transforms.push({
-        fieldPath: key,
-        increment: toFirestoreValue(value.operand),
-      });
-      continue;
+  if (options.mergeFields) {
+    // A listed field missing from the data would be in the mask without a value, silently deleting it
+    for (const field of options.mergeFields) {
+      if (getFieldValue(data, field) === undefined) {
+        throw new Error(`Input data is missing for field "${toFieldPath(field).formattedName}" listed in mergeFields`);
+      }
     }
 
-    if (value instanceof ArrayUnionValue) {
-      transforms.push({
-        fieldPath: key,
-        appendMissingElements: {
-          values: value.elements.map((item) => toFirestoreValue(item)),
-        },
-      });
-      continue;
-    }
+    const mergePaths = options.mergeFields.map((field) => toFieldPath(field).formattedName);
 
-    if (value instanceof ArrayRemoveValue) {
-      transforms.push({
-        fieldPath: key,
-        removeAllFromArray: {
-          values: value.elements.map((item) => toFirestoreValue(item)),
-        },
-      });
-      continue;
-    }
+    // Only the listed fields are written, so transforms outside them are dropped too
+    transforms = transforms.filter((transform) => mergePaths.some((path) => transform.fieldPath === path || transform.fieldPath.startsWith(`${path}.`)));
 
-    fields[key] = toFirestoreValue(value);
-    updateMask.push(key);
+    // A transformed field in the mask would be cleared before the transform runs
+    write.updateMask = { fieldPaths: mergePaths.filter((path) => !transforms.some((transform) => transform.fieldPath === path)) };
+  } else if (options.merge) {
+    write.updateMask = { fieldPaths };
   }
 
-  const fieldPaths = updateMask.map(encodeURIComponent).join("&updateMask.fieldPaths=");
-  const url = `https://firestore.googleapis.com/v1/projects/${FIREBASE_PROJECT_ID}/databases/(default)/documents/${collection}/${docId}?updateMask.fieldPaths=${fieldPaths}&currentDocument.exists=true`;
-
-  const body: any = { fields };
   if (transforms.length > 0) {
-    body.transforms = transforms;
-  }
-
-  const response = await fetch(url, {
-    method: "PATCH",
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify(body),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Failed to update document: ${error}`);
+    write.updateTransforms = transforms;
   }
 
-  return response.json();
+  return write;
 }
 
 /**
- * Create a Firestore document using REST API
+ * Build the commit write for create(), which fails if the document already exists
  */
-async function createDocument(collection: string, data: any, docId?: string) {
-  const accessToken = await getAccessToken();
-  const url = docId
-    ? `https://firestore.googleapis.com/v1/projects/${FIREBASE_PROJECT_ID}/databases/(default)/documents/${collection}?documentId=${docId}`
-    : `https://firestore.googleapis.com/v1/projects/${FIREBASE_PROJECT_ID}/databases/(default)/documents/${collection}`;
+function buildCreateWrite(name: string, data: DocumentData): any {
+  const write = buildSetWrite(name, data);
+  write.currentDocument = { exists: false };
+  return write;
+}
 
-  const fields: any = {};
-  for (const [key, value] of Object.entries(data)) {
-    fields[key] = toFirestoreValue(value);
-  }
+/**
+ * Build the commit write for update(), which requires the document to exist unless a precondition says otherwise
+ */
+function buildUpdateWrite(name: string, entries: [FieldPath, any][], precondition?: Precondition): any {
+  const { fields, transforms, fieldPaths } = encodeWriteData(entries, "update");
 
-  const response = await fetch(url, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      "Content-Type": "application/json",
+  const write: any = {
+    update: {
+      name,
+      fields,
     },
-    body: JSON.stringify({ fields }),
-  });
+    updateMask: {
+      fieldPaths,
+    },
+    currentDocument: toCurrentDocument(precondition, { exists: true }),
+  };
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Failed to create document: ${error}`);
+  if (transforms.length > 0) {
+    write.updateTransforms = transforms;
   }
 
-  return response.json();
+  return write;
 }
 
 /**
- * Set a Firestore document (create or overwrite) using REST API
+ * Build the commit write for delete()
  */
-async function setDocument(collection: string, docId: string, data: any, merge = false) {
-  const accessToken = await getAccessToken();
-
-  // If merge is true, use PATCH, otherwise use PUT or create with specific ID
-  if (merge) {
-    return updateDocument(collection, docId, data);
-  }
+function buildDeleteWrite(name: string, precondition?: Precondition): any {
+  const write: any = { delete: name };
 
-  const url = `https://firestore.googleapis.com/v1/projects/${FIREBASE_PROJECT_ID}/databases/(default)/documents/${collection}?documentId=${docId}`;
-
-  const fields: any = {};
-  for (const [key, value] of Object.entries(data)) {
-    fields[key] = toFirestoreValue(value);
+  const currentDocument = toCurrentDocument(precondition);
+  if (currentDocument) {
+    write.currentDocument = currentDocument;
   }
 
-  // Check if document exists first
-  const exists = await getDocument(collection, docId);
+  return write;
+}
 
-  if (exists) {
-    // Delete and recreate to ensure full overwrite
-    await deleteDocument(collection, docId);
-  }
+/**
+ * Apply a single write through :commit
+ * Unlike the document endpoints, commit applies field transforms and reports the server's write time
+ */
+async function commitWrite(firestore: Firestore, write: any, operation: string, path: string, options: RequestOptions = {}): Promise<WriteResult> {
+  const url = `${documentsUrl(firestore)}:commit`;
 
-  const response = await fetch(url, {
+  const response = await sendRequest(firestore, {
+    operation,
+    path,
+    url,
     method: "POST",
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({ fields }),
+    body: { writes: [write] },
+    idempotent: isIdempotentWrite(write),
+    signal: options.signal,
   });
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Failed to set document: ${error}`);
-  }
-
-  return response.json();
+  return toWriteResults(firestore, response, [write])[0];
 }
 
 /**
- * Delete a Firestore document using REST API
+ * Update fields of an existing Firestore document
  */
-async function deleteDocument(collection: string, docId: string) {
-  const accessToken = await getAccessToken();
-  const url = `https://firestore.googleapis.com/v1/projects/${FIREBASE_PROJECT_ID}/databases/(default)/documents/${collection}/${docId}`;
+async function updateDocument(firestore: Firestore, collection: string, docId: string, entries: [FieldPath, any][], options: Precondition & RequestOptions = {}) {
+  const write = buildUpdateWrite(`${documentsRoot(firestore)}/${collection}/${docId}`, entries, options);
+  return commitWrite(firestore, write, "update document", `${collection}/${docId}`, options);
+}
 
-  const response = await fetch(url, {
-    method: "DELETE",
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-    },
-  });
+/**
+ * Create a Firestore document, failing if it already exists
+ */
+async function createDocument(firestore: Firestore, collection: string, docId: string, data: any, options: RequestOptions = {}) {
+  const write = buildCreateWrite(`${documentsRoot(firestore)}/${collection}/${docId}`, data);
+  return commitWrite(firestore, write, "create document", `${collection}/${docId}`, options);
+}
 
-  if (!response.ok && response.status !== 404) {
-    const error = await response.text();
-    throw new Error(`Failed to delete document: ${error}`);
-  }
+/**
+ * Set a Firestore document (create or overwrite)
+ */
+async function setDocument(firestore: Firestore, collection: string, docId: string, data: any, options: SetOptions & RequestOptions = {}) {
+  const write = buildSetWrite(`${documentsRoot(firestore)}/${collection}/${docId}`, data, options);
+  return commitWrite(firestore, write, "set document", `${collection}/${docId}`, options);
+}
 
-  return response.ok;
+/**
+ * Delete a Firestore document using a single-write commit
+ * Unlike DELETE, the commit response carries the server's commit time
+ */
+async function deleteDocument(firestore: Firestore, collection: string, docId: string, options: Precondition & RequestOptions = {}) {
+  const write = buildDeleteWrite(`${documentsRoot(firestore)}/${collection}/${docId}`, options);
+  return commitWrite(firestore, write, "delete document", `${collection}/${docId}`, options);
 }
 
 /**
  * List documents in a collection using REST API
  */
-async function listDocuments(collection: string, pageSize = 100, pageToken?: string) {
-  const accessToken = await getAccessToken();
-  let url = `https://firestore.googleapis.com/v1/projects/${FIREBASE_PROJECT_ID}/databases/(default)/documents/${collection}?pageSize=${pageSize}`;
+async function listDocuments(firestore: Firestore, collection: string, pageSize = 100, pageToken?: string) {
+  let url = `${documentsUrl(firestore)}/${collection}?pageSize=${pageSize}`;
 
   if (pageToken) {
     url += `&pageToken=${encodeURIComponent(pageToken)}`;
   }
 
-  const response = await fetch(url, {
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-    },
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Failed to list documents: ${error}`);
-  }
-
-  const data = (await response.json()) as { documents?: any[]; nextPageToken?: string };
+  const data = (await sendRequest(firestore, {
+    operation: "list documents",
+    path: collection,
+    url,
+    idempotent: true,
+  })) as { documents?: any[]; nextPageToken?: string };
 
-  // Convert Firestore format back to plain objects
-  const documents =
-    data.documents?.map((doc: any) => {
-      const result: any = { id: doc.name.split("/").pop() };
-      for (const [key, value] of Object.entries(doc.fields || {})) {
-        result[key] = fromFirestoreValue(value);
-      }
-      // Ensure all timestamp-like objects are properly converted
-      return convertTimestampObjects(result);
-    }) || [];
+  const ids: string[] = data.documents?.map((doc: any) => doc.name.split("/").pop()) || [];
 
   return {
-    documents,
+    ids,
     nextPageToken: data.nextPageToken,
   };
 }
 
 /**
  * Batch get multiple documents
+ * Single-document reads pass their own operation and path so errors describe them
  */
-async function batchGetDocuments(documentPaths: string[]) {
-  const accessToken = await getAccessToken();
-  const url = `https://firestore.googleapis.com/v1/projects/${FIREBASE_PROJECT_ID}/databases/(default)/documents:batchGet`;
-
-  const documents = documentPaths.map((path) => `projects/${FIREBASE_PROJECT_ID}/databases/(default)/documents/${path}`);
-
-  const response = await fetch(url, {
+async function batchGetDocuments(
+  firestore: Firestore,
+  documents: string[],
+  options: RequestOptions = {},
+  operation: string = "batch get documents",
+  path?: string
+) {
+  const url = `${documentsUrl(firestore)}:batchGet`;
+
+  return sendRequest(firestore, {
+    operation,
+    path,
+    url,
     method: "POST",
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({ documents }),
+    body: { documents },
+    idempotent: true,
+    signal: options.signal,
   });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Failed to batch get documents: ${error}`);
-  }
-
-  const results = await response.json();
-  return results;
 }
 
 /**
  * Commit a batch write
  */
-async function commitBatch(writes: any[]) {
-  const accessToken = await getAccessToken();
-  const url = `https://firestore.googleapis.com/v1/projects/${FIREBASE_PROJECT_ID}/databases/(default)/documents:commit`;
+async function commitBatch(firestore: Firestore, writes: any[], options: RequestOptions = {}) {
+  const url = `${documentsUrl(firestore)}:commit`;
 
-  const response = await fetch(url, {
+  return sendRequest(firestore, {
+    operation: "commit batch",
+    url,
     method: "POST",
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({ writes }),
+    body: { writes },
+    idempotent: writes.every(isIdempotentWrite),
+    signal: options.signal,
   });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Failed to commit batch: ${error}`);
-  }
-
-  return response.json();
 }
 
 /**
  * Begin a transaction
  */
-async function beginTransaction(options?: { readOnly?: boolean; readWrite?: any }) {
-  const accessToken = await getAccessToken();
-  const url = `https://firestore.googleapis.com/v1/projects/${FIREBASE_PROJECT_ID}/databases/(default)/documents:beginTransaction`;
+async function beginTransaction(firestore: Firestore, options?: { readOnly?: boolean; readWrite?: any }, requestOptions: RequestOptions = {}) {
+  const url = `${documentsUrl(firestore)}:beginTransaction`;
 
   const body: any = {};
   if (options?.readOnly) {
@@ -762,79 +2225,53 @@ async function beginTransaction(options?: { readOnly?: boolean; readWrite?: any
     body.options = { readWrite: options.readWrite };
   }
 
-  const response = await fetch(url, {
+  const data = (await sendRequest(firestore, {
+    operation: "begin transaction",
+    url,
     method: "POST",
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify(body),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Failed to begin transaction: ${error}`);
-  }
-
-  const data = (await response.json()) as { transaction: string };
+    body,
+    idempotent: true,
+    signal: requestOptions.signal,
+  })) as { transaction: string };
   return data.transaction;
 }
 
 /**
  * Commit a transaction
  */
-async function commitTransaction(transaction: string, writes: any[]) {
-  const accessToken = await getAccessToken();
-  const url = `https://firestore.googleapis.com/v1/projects/${FIREBASE_PROJECT_ID}/databases/(default)/documents:commit`;
+async function commitTransaction(firestore: Firestore, transaction: string, writes: any[], options: RequestOptions = {}) {
+  const url = `${documentsUrl(firestore)}:commit`;
 
-  const response = await fetch(url, {
+  return sendRequest(firestore, {
+    operation: "commit transaction",
+    url,
     method: "POST",
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({ writes, transaction }),
+    body: { writes, transaction },
+    idempotent: false,
+    signal: options.signal,
   });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Failed to commit transaction: ${error}`);
-  }
-
-  return response.json();
 }
 
 /**
  * Rollback a transaction
  */
-async function rollbackTransaction(transaction: string) {
-  const accessToken = await getAccessToken();
-  const url = `https://firestore.googleapis.com/v1/projects/${FIREBASE_PROJECT_ID}/databases/(default)/documents:rollback`;
+async function rollbackTransaction(firestore: Firestore, transaction: string) {
+  const url = `${documentsUrl(firestore)}:rollback`;
 
-  const response = await fetch(url, {
+  return sendRequest(firestore, {
+    operation: "rollback transaction",
+    url,
     method: "POST",
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({ transaction }),
+    body: { transaction },
+    idempotent: true,
   });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Failed to rollback transaction: ${error}`);
-  }
-
-  return response.json();
 }
 
 /**
  * Query documents with filters (basic implementation)
  * For complex queries, use the runQuery endpoint
  */
-async function queryDocuments(collection: string, filters: any = {}) {
-  const accessToken = await getAccessToken();
-
+async function queryDocuments(firestore: Firestore, collection: string, filters: any = {}, options: RequestOptions = {}) {
   // Parse the collection path to separate parent path from collection ID
   // e.g., "users/userId/repos/repoId/files" -> parent: "users/userId/repos/repoId", collectionId: "files"
   const pathSegments = collection.split("/");
@@ -842,7 +2279,7 @@ async function queryDocuments(collection: string, filters: any = {}) {
   const parentPath = pathSegments.slice(0, -1).join("/");
 
   // Build the URL with parent path if it exists
-  const baseUrl = `https://firestore.googleapis.com/v1/projects/${FIREBASE_PROJECT_ID}/databases/(default)/documents`;
+  const baseUrl = `${documentsUrl(firestore)}`;
   const url = parentPath ? `${baseUrl}/${parentPath}:runQuery` : `${baseUrl}:runQuery`;
 
   const structuredQuery: any = {
@@ -886,41 +2323,22 @@ async function queryDocuments(collection: string, filters: any = {}) {
     };
   }
 
-  const response = await fetch(url, {
+  return (await sendRequest(firestore, {
+    operation: "query documents",
+    path: collection,
+    url,
     method: "POST",
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({ structuredQuery }),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Failed to query documents: ${error}`);
-  }
-
-  const results = (await response.json()) as any[];
-
-  return results
-    .filter((r: any) => r.document)
-    .map((r: any) => {
-      const doc = r.document;
-      const result: any = { id: doc.name.split("/").pop() };
-      for (const [key, value] of Object.entries(doc.fields || {})) {
-        result[key] = fromFirestoreValue(value);
-      }
-      // Ensure all timestamp-like objects are properly converted
-      return convertTimestampObjects(result);
-    });
+    body: { structuredQuery },
+    idempotent: true,
+    signal: options.signal,
+  })) as any[];
 }
 
 /**
  * Query collection group (all collections with the same ID)
  */
-async function queryCollectionGroup(collectionId: string, filters: any = {}) {
-  const accessToken = await getAccessToken();
-  const baseUrl = `https://firestore.googleapis.com/v1/projects/${FIREBASE_PROJECT_ID}/databases/(default)/documents`;
+async function queryCollectionGroup(firestore: Firestore, collectionId: string, filters: any = {}, options: RequestOptions = {}) {
+  const baseUrl = `${documentsUrl(firestore)}`;
   const url = `${baseUrl}:runQuery`;
 
   const structuredQuery: any = {
@@ -964,48 +2382,28 @@ async function queryCollectionGroup(collectionId: string, filters: any = {}) {
     };
   }
 
-  const response = await fetch(url, {
+  return (await sendRequest(firestore, {
+    operation: "query collection group",
+    path: collectionId,
+    url,
     method: "POST",
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({ structuredQuery }),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Failed to query collection group: ${error}`);
-  }
-
-  const results = (await response.json()) as any[];
-
-  return results
-    .filter((r: any) => r.document)
-    .map((r: any) => {
-      const doc = r.document;
-      const result: any = { id: doc.name.split("/").pop() };
-      for (const [key, value] of Object.entries(doc.fields || {})) {
-        result[key] = fromFirestoreValue(value);
-      }
-      // Ensure all timestamp-like objects are properly converted
-      return convertTimestampObjects(result);
-    });
+    body: { structuredQuery },
+    idempotent: true,
+    signal: options.signal,
+  })) as any[];
 }
 
 /**
  * Run aggregate query
  */
-async function runAggregateQuery(collection: string, filters: any = {}, aggregations: any = {}) {
-  const accessToken = await getAccessToken();
-
+async function runAggregateQuery(firestore: Firestore, collection: string, filters: any = {}, aggregations: any = {}, options: RequestOptions = {}) {
   // Parse the collection path to separate parent path from collection ID
   const pathSegments = collection.split("/");
   const collectionId = pathSegments[pathSegments.length - 1];
   const parentPath = pathSegments.slice(0, -1).join("/");
 
   // Build the URL with parent path if it exists
-  const baseUrl = `https://firestore.googleapis.com/v1/projects/${FIREBASE_PROJECT_ID}/databases/(default)/documents`;
+  const baseUrl = `${documentsUrl(firestore)}`;
   const url = parentPath ? `${baseUrl}/${parentPath}:runAggregationQuery` : `${baseUrl}:runAggregationQuery`;
 
   const structuredQuery: any = {
@@ -1063,76 +2461,175 @@ async function runAggregateQuery(collection: string, filters: any = {}, aggregat
     aggregationsArray.push(agg);
   }
 
-  const response = await fetch(url, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      structuredAggregationQuery: {
-        structuredQuery,
-        aggregations: aggregationsArray,
-      },
-    }),
-  });
+  return sendRequest(firestore, {
+    operation: "run aggregation query",
+    path: collection,
+    url,
+    method: "POST",
+    body: {
+      structuredAggregationQuery: {
+        structuredQuery,
+        aggregations: aggregationsArray,
+      },
+    },
+    idempotent: true,
+    signal: options.signal,
+  });
+}
+
+// Firebase SDK-compatible types and classes
+
+export interface DocumentData {
+  [key: string]: any;
+}
+
+type Primitive = string | number | boolean | bigint | undefined | null;
+
+type UnionToIntersection<U> = (U extends unknown ? (k: U) => void : never) extends (k: infer I) => void ? I : never;
+
+type AddPrefixToKeys<Prefix extends string, T> = {
+  [K in keyof T & string as `${Prefix}.${K}`]+?: T[K];
+};
+
+// Interfaces are not assignable to Record<string, unknown>, so maps are recognised as any non-array object
+type ChildUpdateFields<K extends string, V> = V extends Primitive | readonly unknown[] ? never : V extends object ? AddPrefixToKeys<K, UpdateData<V>> : never;
+
+/**
+ * Dotted paths to every nested field of T, e.g. "address.city"
+ */
+export type NestedUpdateFields<T> = UnionToIntersection<
+  {
+    [K in keyof T & string]: ChildUpdateFields<K, T[K]>;
+  }[keyof T & string]
+>;
+
+/**
+ * Data accepted by update(): any top-level field of T, or a dotted path to a nested one, with a matching value
+ */
+export type UpdateData<T> = T extends Primitive
+  ? T
+  : T extends readonly unknown[]
+  ? T
+  : T extends object
+  ? { [K in keyof T]?: UpdateData<T[K]> } & NestedUpdateFields<T>
+  : Partial<T>;
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Failed to run aggregation query: ${error}`);
-  }
+/**
+ * Converts between an application model and the data stored in Firestore
+ * Attach one with withConverter() to get typed references, queries and snapshots
+ */
+export interface FirestoreDataConverter<T> {
+  toFirestore(modelObject: T): DocumentData;
+  toFirestore(modelObject: Partial<T>, options: SetOptions): DocumentData;
+  fromFirestore(snapshot: QueryDocumentSnapshot): T;
+}
 
-  const results = await response.json();
-  return results;
+/**
+ * The Standard Schema interface (https://standardschema.dev), implemented by zod, valibot, ArkType and others
+ * Declared here, as the spec recommends, so no validation library becomes a dependency
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output } | undefined;
+  };
 }
 
-// Firebase SDK-compatible types and classes
+type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<{ readonly message: string; readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }> }> };
 
-export interface DocumentData {
-  [key: string]: any;
+/**
+ * Type a schema produces once validation succeeds
+ */
+export type InferSchemaOutput<S extends StandardSchemaV1> = NonNullable<S["~standard"]["types"]>["output"];
+
+export interface SchemaOptions {
+  /**
+   * Also validate documents as they are read, so data() returns the schema's parsed output
+   * Defaults to false, which only validates writes
+   */
+  validateReads?: boolean;
+}
+
+/**
+ * Schema attached to a collection with withSchema()
+ */
+interface AttachedSchema {
+  schema: StandardSchemaV1;
+  validateReads: boolean;
 }
 
-export interface DocumentSnapshot {
+export interface DocumentSnapshot<T = DocumentData> {
   id: string;
   exists: boolean;
-  ref: DocumentReference;
-  data(): DocumentData | undefined;
-  get(fieldPath: string): any;
+  ref: DocumentReference<T>;
+  data(): T | undefined;
+  get(fieldPath: string | FieldPath): any;
   createTime?: Timestamp;
   updateTime?: Timestamp;
   readTime?: Timestamp;
 }
 
-export interface QueryDocumentSnapshot extends DocumentSnapshot {
-  data(): DocumentData;
+export interface QueryDocumentSnapshot<T = DocumentData> extends DocumentSnapshot<T> {
+  data(): T;
   createTime: Timestamp;
   updateTime: Timestamp;
   readTime: Timestamp;
 }
 
-export interface QuerySnapshot {
-  docs: QueryDocumentSnapshot[];
-  query: Query;
+export interface QuerySnapshot<T = DocumentData> {
+  docs: QueryDocumentSnapshot<T>[];
+  query: Query<T>;
   size: number;
   empty: boolean;
   readTime?: Timestamp;
-  forEach(callback: (doc: QueryDocumentSnapshot) => void): void;
+  forEach(callback: (doc: QueryDocumentSnapshot<T>) => void): void;
 }
 
 export interface WriteResult {
   writeTime: Timestamp;
+  /**
+   * Values the server resolved for field transforms such as increment() or serverTimestamp(), keyed by field path
+   * Only present when the write had transforms
+   */
+  transformResults?: { [fieldPath: string]: any };
+}
+
+export interface RequestOptions {
+  /**
+   * Aborts the operation, surfacing a FirestoreError with code `cancelled`
+   */
+  signal?: AbortSignal;
 }
 
 export interface SetOptions {
   merge?: boolean;
-  mergeFields?: string[];
+  mergeFields?: (string | FieldPath)[];
+}
+
+/**
+ * Condition the server checks before applying an update or delete
+ * Set either lastUpdateTime or exists, not both
+ */
+export interface Precondition {
+  /**
+   * Only apply the write if the document was last updated at exactly this time
+   */
+  lastUpdateTime?: Timestamp;
+  /**
+   * Only apply the write if the document does (true) or does not (false) exist
+   */
+  exists?: boolean;
 }
 
 export interface ReadOptions {
   fieldMask?: string[];
 }
 
-export interface TransactionOptions {
+export interface TransactionOptions extends RequestOptions {
   readOnly?: boolean;
   readWrite?: {
     retryTransaction?: string;
@@ -1157,177 +2654,66 @@ export interface AggregateQuerySnapshot {
  */
 export class WriteBatch {
   private writes: any[] = [];
+  private pendingWrites: Promise<void>[] = [];
   private committed = false;
 
-  constructor(_firestore: Firestore) {}
+  constructor(private firestore: Firestore) {}
 
-  set(documentRef: DocumentReference, data: DocumentData, options?: SetOptions): WriteBatch {
+  set<T>(documentRef: DocumentReference<T>, data: Partial<T>, options: SetOptions): WriteBatch;
+  set<T>(documentRef: DocumentReference<T>, data: T): WriteBatch;
+  set<T>(documentRef: DocumentReference<T>, data: T | Partial<T>, options?: SetOptions): WriteBatch {
     if (this.committed) {
       throw new Error("Cannot modify a WriteBatch that has been committed");
     }
 
-    const docPath = `projects/${FIREBASE_PROJECT_ID}/databases/(default)/documents/${documentRef.path}`;
-    const fields: any = {};
-
-    for (const [key, value] of Object.entries(data)) {
-      if (value !== DELETE_FIELD_SENTINEL) {
-        fields[key] = toFirestoreValue(value);
-      }
-    }
-
-    if (options?.merge || options?.mergeFields) {
-      const updateMask = options.mergeFields || Object.keys(data);
-      this.writes.push({
-        update: {
-          name: docPath,
-          fields,
-        },
-        updateMask: {
-          fieldPaths: updateMask,
-        },
-      });
-    } else {
-      this.writes.push({
-        update: {
-          name: docPath,
-          fields,
-        },
-      });
-    }
-
+    queueSetWrite(this.writes, this.pendingWrites, documentRef, data, options);
     return this;
   }
 
-  update(documentRef: DocumentReference, data: DocumentData): WriteBatch {
+  update<T>(documentRef: DocumentReference<T>, data: UpdateData<T>, precondition?: Precondition): WriteBatch;
+  update(documentRef: DocumentReference<any>, field: string | FieldPath, value: any, ...moreFieldsAndValues: any[]): WriteBatch;
+  update(documentRef: DocumentReference<any>, dataOrField: DocumentData | string | FieldPath, ...rest: any[]): WriteBatch {
     if (this.committed) {
       throw new Error("Cannot modify a WriteBatch that has been committed");
     }
 
-    const docPath = `projects/${FIREBASE_PROJECT_ID}/databases/(default)/documents/${documentRef.path}`;
-    const fields: any = {};
-    const transforms: any[] = [];
-    const updateMask: string[] = [];
-
-    for (const [key, value] of Object.entries(data)) {
-      if (value === DELETE_FIELD_SENTINEL) {
-        updateMask.push(key);
-        continue;
-      }
-
-      if (value === SERVER_TIMESTAMP_SENTINEL) {
-        transforms.push({
-          fieldPath: key,
-          setToServerValue: "REQUEST_TIME",
-        });
-        continue;
-      }
-
-      if (value instanceof IncrementValue) {
-        transforms.push({
-          fieldPath: key,
-          increment: toFirestoreValue(value.operand),
-        });
-        continue;
-      }
-
-      if (value instanceof ArrayUnionValue) {
-        transforms.push({
-          fieldPath: key,
-          appendMissingElements: {
-            values: value.elements.map((item) => toFirestoreValue(item)),
-          },
-        });
-        continue;
-      }
-
-      if (value instanceof ArrayRemoveValue) {
-        transforms.push({
-          fieldPath: key,
-          removeAllFromArray: {
-            values: value.elements.map((item) => toFirestoreValue(item)),
-          },
-        });
-        continue;
-      }
-
-      fields[key] = toFirestoreValue(value);
-      updateMask.push(key);
-    }
-
-    const write: any = {
-      update: {
-        name: docPath,
-        fields,
-      },
-      updateMask: {
-        fieldPaths: updateMask,
-      },
-      currentDocument: {
-        exists: true,
-      },
-    };
-
-    if (transforms.length > 0) {
-      write.updateTransforms = transforms;
-    }
-
-    this.writes.push(write);
+    const { entries, options } = parseUpdateArgs(dataOrField, rest);
+    this.writes.push(buildUpdateWrite(documentRef.formattedName, entries, options));
     return this;
   }
 
-  delete(documentRef: DocumentReference): WriteBatch {
+  delete(documentRef: DocumentReference<any>, precondition?: Precondition): WriteBatch {
     if (this.committed) {
       throw new Error("Cannot modify a WriteBatch that has been committed");
     }
 
-    const docPath = `projects/${FIREBASE_PROJECT_ID}/databases/(default)/documents/${documentRef.path}`;
-    this.writes.push({
-      delete: docPath,
-    });
-
+    this.writes.push(buildDeleteWrite(documentRef.formattedName, precondition));
     return this;
   }
 
-  create(documentRef: DocumentReference, data: DocumentData): WriteBatch {
+  create<T>(documentRef: DocumentReference<T>, data: T): WriteBatch {
     if (this.committed) {
       throw new Error("Cannot modify a WriteBatch that has been committed");
     }
 
-    const docPath = `projects/${FIREBASE_PROJECT_ID}/databases/(default)/documents/${documentRef.path}`;
-    const fields: any = {};
-
-    for (const [key, value] of Object.entries(data)) {
-      fields[key] = toFirestoreValue(value);
-    }
-
-    this.writes.push({
-      update: {
-        name: docPath,
-        fields,
-      },
-      currentDocument: {
-        exists: false,
-      },
-    });
-
+    queueCreateWrite(this.writes, this.pendingWrites, documentRef, data);
     return this;
   }
 
-  async commit(): Promise<WriteResult[]> {
+  async commit(options?: RequestOptions): Promise<WriteResult[]> {
     if (this.committed) {
       throw new Error("Cannot commit a WriteBatch that has already been committed");
     }
 
     this.committed = true;
+    await Promise.all(this.pendingWrites);
 
     if (this.writes.length === 0) {
       return [];
     }
 
-    const result = (await commitBatch(this.writes)) as { writeResults?: any[] };
-    const now = Timestamp.now();
-
-    return result.writeResults?.map(() => ({ writeTime: now })) || [];
+    const result = await commitBatch(this.firestore, this.writes, options);
+    return toWriteResults(this.firestore, result, this.writes);
   }
 }
 
@@ -1336,209 +2722,66 @@ export class WriteBatch {
  */
 export class Transaction {
   private writes: any[] = [];
+  private pendingWrites: Promise<void>[] = [];
   private transactionId: string;
 
-  constructor(transactionId: string, _firestore: Firestore) {
+  constructor(transactionId: string, private firestore: Firestore, private options: RequestOptions = {}) {
     this.transactionId = transactionId;
   }
 
-  async get(documentRef: DocumentReference): Promise<DocumentSnapshot> {
-    const accessToken = await getAccessToken();
-    const url = `https://firestore.googleapis.com/v1/projects/${FIREBASE_PROJECT_ID}/databases/(default)/documents:batchGet`;
+  async get<T>(documentRef: DocumentReference<T>): Promise<DocumentSnapshot<T>> {
+    const url = `${documentsUrl(this.firestore)}:batchGet`;
 
-    const response = await fetch(url, {
+    const results = (await sendRequest(this.firestore, {
+      operation: "get document in transaction",
+      path: documentRef.path,
+      url,
       method: "POST",
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        documents: [`projects/${FIREBASE_PROJECT_ID}/databases/(default)/documents/${documentRef.path}`],
+      body: {
+        documents: [documentRef.formattedName],
         transaction: this.transactionId,
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Failed to get document in transaction: ${error}`);
-    }
-
-    const results = (await response.json()) as any[];
-    const result = results[0];
-
-    if (result.missing) {
-      return {
-        id: documentRef.id,
-        exists: false,
-        ref: documentRef,
-        data: () => undefined,
-        get: () => undefined,
-      };
-    }
-
-    const doc = result.found;
-    const data: any = { id: doc.name.split("/").pop() };
-
-    for (const [key, value] of Object.entries(doc.fields || {})) {
-      data[key] = fromFirestoreValue(value);
-    }
-
-    // Ensure all timestamp-like objects are properly converted
-    const convertedData = convertTimestampObjects(data);
+      },
+      idempotent: true,
+      signal: this.options.signal,
+    })) as any[];
+    const result = results.find((item) => item.found || item.missing);
 
-    return {
-      id: documentRef.id,
-      exists: true,
-      ref: documentRef,
-      data: () => convertedData,
-      get: (fieldPath: string) => convertedData[fieldPath],
-      createTime: doc.createTime ? Timestamp.fromDate(new Date(doc.createTime)) : undefined,
-      updateTime: doc.updateTime ? Timestamp.fromDate(new Date(doc.updateTime)) : undefined,
-    };
+    return validateRead(buildSnapshot(documentRef, result?.found, result?.readTime), "get document in transaction");
   }
 
-  set(documentRef: DocumentReference, data: DocumentData, options?: SetOptions): Transaction {
-    const docPath = `projects/${FIREBASE_PROJECT_ID}/databases/(default)/documents/${documentRef.path}`;
-    const fields: any = {};
-
-    for (const [key, value] of Object.entries(data)) {
-      if (value !== DELETE_FIELD_SENTINEL) {
-        fields[key] = toFirestoreValue(value);
-      }
-    }
-
-    if (options?.merge || options?.mergeFields) {
-      const updateMask = options.mergeFields || Object.keys(data);
-      this.writes.push({
-        update: {
-          name: docPath,
-          fields,
-        },
-        updateMask: {
-          fieldPaths: updateMask,
-        },
-      });
-    } else {
-      this.writes.push({
-        update: {
-          name: docPath,
-          fields,
-        },
-      });
-    }
-
+  set<T>(documentRef: DocumentReference<T>, data: Partial<T>, options: SetOptions): Transaction;
+  set<T>(documentRef: DocumentReference<T>, data: T): Transaction;
+  set<T>(documentRef: DocumentReference<T>, data: T | Partial<T>, options?: SetOptions): Transaction {
+    queueSetWrite(this.writes, this.pendingWrites, documentRef, data, options);
     return this;
   }
 
-  update(documentRef: DocumentReference, data: DocumentData): Transaction {
-    const docPath = `projects/${FIREBASE_PROJECT_ID}/databases/(default)/documents/${documentRef.path}`;
-    const fields: any = {};
-    const transforms: any[] = [];
-    const updateMask: string[] = [];
-
-    for (const [key, value] of Object.entries(data)) {
-      if (value === DELETE_FIELD_SENTINEL) {
-        updateMask.push(key);
-        continue;
-      }
-
-      if (value === SERVER_TIMESTAMP_SENTINEL) {
-        transforms.push({
-          fieldPath: key,
-          setToServerValue: "REQUEST_TIME",
-        });
-        continue;
-      }
-
-      if (value instanceof IncrementValue) {
-        transforms.push({
-          fieldPath: key,
-          increment: toFirestoreValue(value.operand),
-        });
-        continue;
-      }
-
-      if (value instanceof ArrayUnionValue) {
-        transforms.push({
-          fieldPath: key,
-          appendMissingElements: {
-            values: value.elements.map((item) => toFirestoreValue(item)),
-          },
-        });
-        continue;
-      }
-
-      if (value instanceof ArrayRemoveValue) {
-        transforms.push({
-          fieldPath: key,
-          removeAllFromArray: {
-            values: value.elements.map((item) => toFirestoreValue(item)),
-          },
-        });
-        continue;
-      }
-
-      fields[key] = toFirestoreValue(value);
-      updateMask.push(key);
-    }
-
-    const write: any = {
-      update: {
-        name: docPath,
-        fields,
-      },
-      updateMask: {
-        fieldPaths: updateMask,
-      },
-      currentDocument: {
-        exists: true,
-      },
-    };
-
-    if (transforms.length > 0) {
-      write.updateTransforms = transforms;
-    }
-
-    this.writes.push(write);
+  update<T>(documentRef: DocumentReference<T>, data: UpdateData<T>, precondition?: Precondition): Transaction;
+  update(documentRef: DocumentReference<any>, field: string | FieldPath, value: any, ...moreFieldsAndValues: any[]): Transaction;
+  update(documentRef: DocumentReference<any>, dataOrField: DocumentData | string | FieldPath, ...rest: any[]): Transaction {
+    const { entries, options } = parseUpdateArgs(dataOrField, rest);
+    this.writes.push(buildUpdateWrite(documentRef.formattedName, entries, options));
     return this;
   }
 
-  delete(documentRef: DocumentReference): Transaction {
-    const docPath = `projects/${FIREBASE_PROJECT_ID}/databases/(default)/documents/${documentRef.path}`;
-    this.writes.push({
-      delete: docPath,
-    });
-
+  delete(documentRef: DocumentReference<any>, precondition?: Precondition): Transaction {
+    this.writes.push(buildDeleteWrite(documentRef.formattedName, precondition));
     return this;
   }
 
-  create(documentRef: DocumentReference, data: DocumentData): Transaction {
-    const docPath = `projects/${FIREBASE_PROJECT_ID}/databases/(default)/documents/${documentRef.path}`;
-    const fields: any = {};
-
-    for (const [key, value] of Object.entries(data)) {
-      fields[key] = toFirestoreValue(value);
-    }
-
-    this.writes.push({
-      update: {
-        name: docPath,
-        fields,
-      },
-      currentDocument: {
-        exists: false,
-      },
-    });
-
+  create<T>(documentRef: DocumentReference<T>, data: T): Transaction {
+    queueCreateWrite(this.writes, this.pendingWrites, documentRef, data);
     return this;
   }
 
   async commit(): Promise<void> {
+    await Promise.all(this.pendingWrites);
+
     if (this.writes.length === 0) {
       return;
     }
 
-    await commitTransaction(this.transactionId, this.writes);
+    await commitTransaction(this.firestore, this.transactionId, this.writes, this.options);
   }
 
   getWrites(): any[] {
@@ -1546,11 +2789,29 @@ export class Transaction {
   }
 }
 
-export class DocumentReference {
+export class DocumentReference<T = DocumentData> {
   private _firestore?: Firestore;
-
-  constructor(private collectionPath: string, private docId?: string, firestore?: Firestore) {
+  /**
+   * Converter applied to data written through and read from this reference
+   * @internal
+   */
+  readonly _converter: FirestoreDataConverter<T> | null;
+  /**
+   * Schema inherited from the collection's withSchema()
+   * @internal
+   */
+  readonly _schema: AttachedSchema | null;
+
+  constructor(
+    private collectionPath: string,
+    private docId?: string,
+    firestore?: Firestore,
+    converter: FirestoreDataConverter<T> | null = null,
+    schema: AttachedSchema | null = null
+  ) {
     this._firestore = firestore;
+    this._converter = converter;
+    this._schema = schema;
   }
 
   get id(): string {
@@ -1561,86 +2822,96 @@ export class DocumentReference {
     return this.docId ? `${this.collectionPath}/${this.docId}` : this.collectionPath;
   }
 
-  get parent(): CollectionReference {
-    return new CollectionReference(this.collectionPath, this._firestore);
+  get parent(): CollectionReference<T> {
+    return new CollectionReference(this.collectionPath, this._firestore, this._converter, this._schema);
   }
 
   get firestore(): Firestore {
-    return this._firestore || new Firestore();
+    return this._firestore || getFirestore();
   }
 
-  async get(): Promise<DocumentSnapshot> {
+  /**
+   * Full resource name including the project and database this reference belongs to
+   */
+  get formattedName(): string {
+    return `${documentsRoot(this.firestore)}/${this.path}`;
+  }
+
+  async get(options?: RequestOptions): Promise<DocumentSnapshot<T>> {
     if (!this.docId) {
       throw new Error("Document ID is required for get() operation");
     }
 
-    const data = await getDocument(this.collectionPath, this.docId);
+    // batchGet reports the read time, which a plain document GET does not
+    const results = (await batchGetDocuments(this.firestore, [this.formattedName], options, "get document", this.path)) as any[];
+    const result = results.find((item) => item.found || item.missing);
 
-    // Ensure all timestamp-like objects are properly converted
-    const convertedData = convertTimestampObjects(data);
-
-    return {
-      id: this.docId,
-      exists: convertedData !== null,
-      ref: this,
-      data: () => convertedData,
-      get: (fieldPath: string) => convertedData?.[fieldPath],
-    };
+    return validateRead(buildSnapshot(this, result?.found, result?.readTime), "get document");
   }
 
-  async set(data: DocumentData, options?: SetOptions): Promise<WriteResult> {
+  async set(data: Partial<T>, options: SetOptions & RequestOptions): Promise<WriteResult>;
+  async set(data: T, options?: RequestOptions): Promise<WriteResult>;
+  async set(data: T | Partial<T>, options?: SetOptions & RequestOptions): Promise<WriteResult> {
     if (!this.docId) {
       throw new Error("Document ID is required for set() operation");
     }
 
-    await setDocument(this.collectionPath, this.docId, data, options?.merge);
-    return { writeTime: Timestamp.now() };
+    // Merges write partial data, which a whole-document schema cannot check
+    if (!options?.merge && !options?.mergeFields) {
+      data = await validateWrite(this, data as T, "set document");
+    }
+
+    return setDocument(this.firestore, this.collectionPath, this.docId, toFirestoreData(this, data, options), options);
   }
 
-  async update(data: DocumentData): Promise<WriteResult> {
+  async update(data: UpdateData<T>, options?: Precondition & RequestOptions): Promise<WriteResult>;
+  async update(field: string | FieldPath, value: any, ...moreFieldsAndValues: any[]): Promise<WriteResult>;
+  async update(dataOrField: UpdateData<T> | string | FieldPath, ...rest: any[]): Promise<WriteResult> {
     if (!this.docId) {
       throw new Error("Document ID is required for update() operation");
     }
 
-    await updateDocument(this.collectionPath, this.docId, data);
-    return { writeTime: Timestamp.now() };
+    const { entries, options } = parseUpdateArgs(dataOrField as DocumentData | string | FieldPath, rest);
+    return updateDocument(this.firestore, this.collectionPath, this.docId, entries, options);
   }
 
-  async delete(): Promise<WriteResult> {
+  async delete(options?: Precondition & RequestOptions): Promise<WriteResult> {
     if (!this.docId) {
       throw new Error("Document ID is required for delete() operation");
     }
 
-    await deleteDocument(this.collectionPath, this.docId);
-    return { writeTime: Timestamp.now() };
+    return deleteDocument(this.firestore, this.collectionPath, this.docId, options);
   }
 
-  async create(data: DocumentData): Promise<WriteResult> {
+  async create(data: T, options?: RequestOptions): Promise<WriteResult> {
     if (!this.docId) {
       throw new Error("Document ID is required for create() operation");
     }
 
-    // Check if document exists first
-    const exists = await getDocument(this.collectionPath, this.docId);
-    if (exists) {
-      throw new Error(`Document already exists: ${this.path}`);
-    }
-
-    await setDocument(this.collectionPath, this.docId, data, false);
-    return { writeTime: Timestamp.now() };
+    // The server rejects the write with already-exists if the document is present
+    const valid = await validateWrite(this, data, "create document");
+    return createDocument(this.firestore, this.collectionPath, this.docId, toFirestoreData(this, valid), options);
   }
 
   collection(collectionId: string): CollectionReference {
     return new CollectionReference(`${this.collectionPath}/${this.docId}/${collectionId}`, this._firestore);
   }
 
-  isEqual(other: DocumentReference): boolean {
-    return this.path === other.path;
+  /**
+   * Typed view of this document; pass null to go back to plain DocumentData
+   * Replaces any schema attached with withSchema()
+   */
+  withConverter<U = DocumentData>(converter: FirestoreDataConverter<U> | null): DocumentReference<U> {
+    return new DocumentReference(this.collectionPath, this.docId, this._firestore, converter);
+  }
+
+  isEqual(other: DocumentReference<any>): boolean {
+    return this.formattedName === other.formattedName;
   }
 }
 
-export class Query {
-  protected filters: any[] = [];
+export class Query<T = DocumentData> {
+  protected filters: Filter[] = [];
   protected orderByFields: any[] = [];
   protected queryLimit?: number;
   protected queryLimitType?: "FIRST" | "LAST";
@@ -1651,83 +2922,93 @@ export class Query {
   protected endAtBefore?: boolean;
   protected selectFields?: string[];
   protected _firestore?: Firestore;
+  protected _converter: FirestoreDataConverter<T> | null = null;
+  protected _schema: AttachedSchema | null = null;
 
   constructor(protected collectionId: string, firestore?: Firestore) {
     this._firestore = firestore;
   }
 
   get firestore(): Firestore {
-    return this._firestore || new Firestore();
+    return this._firestore || getFirestore();
   }
 
-  where(field: string, opStr: string, value: any): Query {
+  where(filter: Filter): Query<T>;
+  where(field: string | FieldPath, opStr: WhereFilterOp, value: any): Query<T>;
+  where(fieldOrFilter: string | FieldPath | Filter, opStr?: WhereFilterOp, value?: any): Query<T> {
     const query = this.clone();
-    query.filters.push({ field, opStr, value });
+    query.filters.push(fieldOrFilter instanceof Filter ? fieldOrFilter : Filter.where(fieldOrFilter, opStr!, value));
+    query.validate();
     return query;
   }
 
-  orderBy(field: string, directionStr: string = "ASCENDING"): Query {
+  orderBy(field: string | FieldPath, directionStr: string = "ASCENDING"): Query<T> {
     const query = this.clone();
     const direction = directionStr.toLowerCase() === "desc" || directionStr === "DESCENDING" ? "DESCENDING" : "ASCENDING";
-    query.orderByFields.push({ field, direction });
+    query.orderByFields.push({ field: toFieldPath(field).formattedName, direction });
+    query.validate();
     return query;
   }
 
-  limit(limit: number): Query {
+  limit(limit: number): Query<T> {
     const query = this.clone();
     query.queryLimit = limit;
     query.queryLimitType = "FIRST";
     return query;
   }
 
-  limitToLast(limit: number): Query {
+  limitToLast(limit: number): Query<T> {
     const query = this.clone();
     query.queryLimit = limit;
     query.queryLimitType = "LAST";
     return query;
   }
 
-  offset(offset: number): Query {
+  offset(offset: number): Query<T> {
     const query = this.clone();
     query.queryOffset = offset;
     return query;
   }
 
-  startAt(...fieldValues: any[]): Query {
+  startAt(...fieldValues: any[]): Query<T> {
     const query = this.clone();
     query.startAtValues = fieldValues;
-    query.startAtBefore = false;
+    query.startAtBefore = true;
+    query.validate();
     return query;
   }
 
-  startAfter(...fieldValues: any[]): Query {
+  startAfter(...fieldValues: any[]): Query<T> {
     const query = this.clone();
     query.startAtValues = fieldValues;
-    query.startAtBefore = true;
+    query.startAtBefore = false;
+    query.validate();
     return query;
   }
 
-  endAt(...fieldValues: any[]): Query {
+  endAt(...fieldValues: any[]): Query<T> {
     const query = this.clone();
     query.endAtValues = fieldValues;
     query.endAtBefore = false;
+    query.validate();
     return query;
   }
 
-  endBefore(...fieldValues: any[]): Query {
+  endBefore(...fieldValues: any[]): Query<T> {
     const query = this.clone();
     query.endAtValues = fieldValues;
     query.endAtBefore = true;
+    query.validate();
     return query;
   }
 
-  select(...fields: string[]): Query {
+  select(...fields: (string | FieldPath)[]): Query<T> {
     const query = this.clone();
-    query.selectFields = fields;
+    query.selectFields = fields.map((field) => toFieldPath(field).formattedName);
     return query;
   }
 
-  async get(): Promise<QuerySnapshot> {
+  async get(options?: RequestOptions): Promise<QuerySnapshot<T>> {
     // Build Firestore query structure
     const whereClause = this.buildWhereClause();
     const orderByClause = this.buildOrderByClause();
@@ -1743,43 +3024,44 @@ export class Query {
     if (endAtClause) filters.endAt = endAtClause;
     if (this.selectFields) filters.select = this.selectFields;
 
-    const documents = await queryDocuments(this.collectionId, filters);
+    const results = await queryDocuments(this.firestore, this.collectionId, filters, options);
+    return this.buildQuerySnapshot(results);
+  }
+
+  /**
+   * Turn runQuery results into a snapshot carrying the server's read time
+   */
+  protected async buildQuerySnapshot(results: any[]): Promise<QuerySnapshot<T>> {
+    const readTime = results.find((result) => result.readTime)?.readTime;
+
+    const docs = results
+      .filter((result) => result.document)
+      .map(
+        (result) =>
+          buildSnapshot(documentRefFromName(this.firestore, result.document.name, this._converter, this._schema), result.document, readTime) as QueryDocumentSnapshot<T>
+      );
+
+    await Promise.all(docs.map((doc) => validateRead(doc, "query documents")));
 
     // If limitToLast, reverse the results
     if (this.queryLimitType === "LAST") {
-      documents.reverse();
+      docs.reverse();
     }
 
-    const docs: QueryDocumentSnapshot[] = documents.map((doc: any) => {
-      const ref = new DocumentReference(this.collectionId, doc.id, this._firestore);
-      // Ensure all timestamp-like objects are properly converted
-      const convertedDoc = convertTimestampObjects(doc);
-      return {
-        id: doc.id,
-        exists: true,
-        ref,
-        data: () => convertedDoc,
-        get: (fieldPath: string) => convertedDoc[fieldPath],
-        createTime: Timestamp.now(),
-        updateTime: Timestamp.now(),
-        readTime: Timestamp.now(),
-      };
-    });
-
     return {
       docs,
       query: this,
       size: docs.length,
       empty: docs.length === 0,
-      readTime: Timestamp.now(),
-      forEach: (callback: (doc: QueryDocumentSnapshot) => void) => {
+      readTime: readTime ? Timestamp.fromISOString(readTime) : undefined,
+      forEach: (callback: (doc: QueryDocumentSnapshot<T>) => void) => {
         docs.forEach(callback);
       },
     };
   }
 
-  async count(): Promise<number> {
-    const snapshot = await this.get();
+  async count(options?: RequestOptions): Promise<number> {
+    const snapshot = await this.get(options);
     return snapshot.size;
   }
 
@@ -1787,8 +3069,19 @@ export class Query {
     return new AggregateQuery(this, aggregateSpec);
   }
 
-  protected clone(): Query {
-    const query = new Query(this.collectionId, this._firestore);
+  /**
+   * Typed view of this query's results; pass null to go back to plain DocumentData
+   * Replaces any schema attached with withSchema()
+   */
+  withConverter<U = DocumentData>(converter: FirestoreDataConverter<U> | null): Query<U> {
+    const query = this.clone() as unknown as Query<U>;
+    query._converter = converter;
+    query._schema = null;
+    return query;
+  }
+
+  protected clone(): Query<T> {
+    const query = new Query<T>(this.collectionId, this._firestore);
     query.filters = [...this.filters];
     query.orderByFields = [...this.orderByFields];
     query.queryLimit = this.queryLimit;
@@ -1799,81 +3092,167 @@ export class Query {
     query.endAtValues = this.endAtValues;
     query.endAtBefore = this.endAtBefore;
     query.selectFields = this.selectFields;
+    query._converter = this._converter;
+    query._schema = this._schema;
     return query;
   }
 
   protected buildWhereClause() {
-    if (this.filters.length === 0) return null;
+    return this.encodeFilter(Filter.and(...this.filters));
+  }
+
+  /**
+   * Composites with a single member collapse into that member and empty ones are dropped
+   * Equality with null or NaN becomes a unary filter, as Firestore does not accept them as field filter values
+   */
+  protected encodeFilter(filter: Filter): any {
+    if (filter instanceof CompositeFilter) {
+      const filters = filter.filters.map((f) => this.encodeFilter(f)).filter((f) => f !== null);
+      if (filters.length === 0) return null;
+      if (filters.length === 1) return filters[0];
+      return { compositeFilter: { op: filter.op, filters } };
+    }
 
-    if (this.filters.length === 1) {
-      const filter = this.filters[0];
+    const fieldFilter = filter as FieldFilter;
+    if ((fieldFilter.opStr === "==" || fieldFilter.opStr === "!=") && (fieldFilter.value === null || Number.isNaN(fieldFilter.value))) {
+      const test = fieldFilter.value === null ? "NULL" : "NAN";
       return {
-        fieldFilter: {
-          field: { fieldPath: filter.field },
-          op: this.mapOperator(filter.opStr),
-          value: toFirestoreValue(filter.value),
+        unaryFilter: {
+          field: { fieldPath: fieldFilter.field },
+          op: fieldFilter.opStr === "==" ? `IS_${test}` : `IS_NOT_${test}`,
         },
       };
     }
 
     return {
-      compositeFilter: {
-        op: "AND",
-        filters: this.filters.map((filter) => ({
-          fieldFilter: {
-            field: { fieldPath: filter.field },
-            op: this.mapOperator(filter.opStr),
-            value: toFirestoreValue(filter.value),
-          },
-        })),
+      fieldFilter: {
+        field: { fieldPath: fieldFilter.field },
+        op: FILTER_OPERATORS[fieldFilter.opStr],
+        value: this.encodeFilterValue(fieldFilter),
       },
     };
   }
 
-  protected buildOrderByClause() {
-    if (this.orderByFields.length === 0) return null;
+  /**
+   * Document ID filters compare references, so plain string IDs are resolved against this query's collection
+   * IDs containing a slash are treated as paths from the database root, as collection group queries need
+   */
+  protected encodeFilterValue(filter: { field: string; value: any }) {
+    if (filter.field !== "__name__") {
+      return toFirestoreValue(filter.value);
+    }
+
+    const toReference = (value: any) =>
+      typeof value === "string"
+        ? { referenceValue: `${documentsRoot(this.firestore)}/${value.includes("/") ? value : `${this.collectionId}/${value}`}` }
+        : toFirestoreValue(value);
+
+    return Array.isArray(filter.value) ? { arrayValue: { values: filter.value.map(toReference) } } : toReference(filter.value);
+  }
+
+  /**
+   * Check the query against Firestore's rules so mistakes surface where the query is built
+   * rather than as a server error
+   */
+  protected validate(): void {
+    const inequalities = this.filters.flatMap(fieldFilters).filter((filter) => INEQUALITY_OPERATORS.includes(filter.opStr));
+    const inequalityField = inequalities[0]?.field;
+
+    const otherField = inequalities.find((filter) => filter.field !== inequalityField)?.field;
+    if (otherField !== undefined) {
+      throw new Error(
+        `Invalid query: inequality filters on "${inequalityField}" and "${otherField}". All inequality filters (${INEQUALITY_OPERATORS.join(", ")}) must be on the same field`
+      );
+    }
+
+    if (inequalityField !== undefined && this.orderByFields.length > 0 && this.orderByFields[0].field !== inequalityField) {
+      throw new Error(
+        `Invalid query: the first orderBy() field must be "${inequalityField}" because the query has an inequality filter on it, got "${this.orderByFields[0].field}"`
+      );
+    }
+
+    const orders = this.effectiveOrderBy();
+    for (const [method, values] of [
+      ["startAt() / startAfter()", this.startAtValues],
+      ["endAt() / endBefore()", this.endAtValues],
+    ] as const) {
+      if (values && values.length > orders.length) {
+        throw new Error(
+          `Too many cursor values: ${method} got ${values.length} values but the query is ordered by ${orders.length} field${orders.length === 1 ? "" : "s"} (${orders
+            .map((order) => order.field)
+            .join(", ")})`
+        );
+      }
+
+      this.checkDocumentId(values?.[orders.findIndex((order) => order.field === "__name__")], "cursor");
+    }
+
+    for (const filter of this.filters.flatMap(fieldFilters)) {
+      if (filter.field === "__name__") {
+        for (const value of Array.isArray(filter.value) ? filter.value : [filter.value]) {
+          this.checkDocumentId(value, "document ID filter");
+        }
+      }
+    }
+  }
+
+  /**
+   * A bare ID cannot say which of a collection group's collections the document is in
+   */
+  private checkDocumentId(value: unknown, usage: string): void {
+    if (this instanceof CollectionGroup && typeof value === "string" && !value.includes("/")) {
+      throw new Error(`Invalid ${usage}: collection group queries need a DocumentReference or full document path for the document ID, got "${value}"`);
+    }
+  }
+
+  /**
+   * The ordering Firestore applies: an inequality field is ordered first when no order is given,
+   * and the document name always breaks ties in the direction of the last ordering
+   */
+  protected effectiveOrderBy(): { field: string; direction: string }[] {
+    const orders = [...this.orderByFields];
+    const inequality = this.filters.flatMap(fieldFilters).find((filter) => INEQUALITY_OPERATORS.includes(filter.opStr));
+
+    if (orders.length === 0 && inequality) {
+      orders.push({ field: inequality.field, direction: "ASCENDING" });
+    }
+    if (!orders.some((order) => order.field === "__name__")) {
+      orders.push({ field: "__name__", direction: orders.length > 0 ? orders[orders.length - 1].direction : "ASCENDING" });
+    }
+    return orders;
+  }
 
-    return this.orderByFields.map((order) => ({
+  protected buildOrderByClause() {
+    return this.effectiveOrderBy().map((order) => ({
       field: { fieldPath: order.field },
       direction: order.direction,
     }));
   }
 
+  /**
+   * Cursor values line up with the effective ordering, so a trailing document ID is encoded as a reference
+   */
+  protected buildCursor(values: any[], before?: boolean) {
+    const orders = this.effectiveOrderBy();
+    return {
+      values: values.map((value, i) => this.encodeFilterValue({ field: orders[i].field, value })),
+      before,
+    };
+  }
+
   protected buildStartAtClause() {
     if (!this.startAtValues) return null;
 
-    return {
-      values: this.startAtValues.map((v) => toFirestoreValue(v)),
-      before: this.startAtBefore,
-    };
+    return this.buildCursor(this.startAtValues, this.startAtBefore);
   }
 
   protected buildEndAtClause() {
     if (!this.endAtValues) return null;
 
-    return {
-      values: this.endAtValues.map((v) => toFirestoreValue(v)),
-      before: this.endAtBefore,
-    };
-  }
-
-  protected mapOperator(opStr: string): string {
-    const operatorMap: { [key: string]: string } = {
-      "==": "EQUAL",
-      "!=": "NOT_EQUAL",
-      "<": "LESS_THAN",
-      "<=": "LESS_THAN_OR_EQUAL",
-      ">": "GREATER_THAN",
-      ">=": "GREATER_THAN_OR_EQUAL",
-      "array-contains": "ARRAY_CONTAINS",
-      in: "IN",
-      "not-in": "NOT_IN",
-      "array-contains-any": "ARRAY_CONTAINS_ANY",
-    };
-    return operatorMap[opStr] || "EQUAL";
+    return this.buildCursor(this.endAtValues, this.endAtBefore);
   }
 
-  isEqual(other: Query): boolean {
+  isEqual(other: Query<any>): boolean {
     return (
       JSON.stringify(this.buildWhereClause()) === JSON.stringify(other.buildWhereClause()) &&
       JSON.stringify(this.buildOrderByClause()) === JSON.stringify(other.buildOrderByClause()) &&
@@ -1882,12 +3261,14 @@ export class Query {
   }
 }
 
-export class CollectionReference extends Query {
+export class CollectionReference<T = DocumentData> extends Query<T> {
   protected _firestore?: Firestore;
 
-  constructor(private collectionPath: string, firestore?: Firestore) {
+  constructor(private collectionPath: string, firestore?: Firestore, converter: FirestoreDataConverter<T> | null = null, schema: AttachedSchema | null = null) {
     super(collectionPath, firestore);
     this._firestore = firestore;
+    this._converter = converter;
+    this._schema = schema;
   }
 
   get id(): string {
@@ -1910,26 +3291,39 @@ export class CollectionReference extends Query {
   }
 
   get firestore(): Firestore {
-    return this._firestore || new Firestore();
+    return this._firestore || getFirestore();
   }
 
-  doc(docId?: string): DocumentReference {
+  doc(docId?: string): DocumentReference<T> {
     if (!docId) {
       // Generate random ID
       docId = this.generateRandomId();
     }
-    return new DocumentReference(this.collectionPath, docId, this._firestore);
+    return new DocumentReference(this.collectionPath, docId, this._firestore, this._converter, this._schema);
+  }
+
+  async add(data: T): Promise<DocumentReference<T>> {
+    const docRef = this.doc();
+    await docRef.create(data);
+    return docRef;
   }
 
-  async add(data: DocumentData): Promise<DocumentReference> {
-    const result = (await createDocument(this.collectionPath, data)) as { name: string };
-    const docId = result.name.split("/").pop();
-    return new DocumentReference(this.collectionPath, docId, this._firestore);
+  async listDocuments(): Promise<DocumentReference<T>[]> {
+    const result = await listDocuments(this.firestore, this.collectionPath, 1000);
+    return result.ids.map((id) => new DocumentReference(this.collectionPath, id, this._firestore, this._converter, this._schema));
   }
 
-  async listDocuments(): Promise<DocumentReference[]> {
-    const result = await listDocuments(this.collectionPath, 1000);
-    return result.documents.map((doc: any) => new DocumentReference(this.collectionPath, doc.id, this._firestore));
+  withConverter<U = DocumentData>(converter: FirestoreDataConverter<U> | null): CollectionReference<U> {
+    return new CollectionReference(this.collectionPath, this._firestore, converter);
+  }
+
+  /**
+   * Validate documents in this collection against a Standard Schema (zod, valibot, ArkType, ...)
+   * set(), create() and add() are checked before anything is sent, in batches and transactions too;
+   * update() and merging sets carry partial data and are not. Replaces any converter
+   */
+  withSchema<S extends StandardSchemaV1>(schema: S, options: SchemaOptions = {}): CollectionReference<InferSchemaOutput<S>> {
+    return new CollectionReference(this.collectionPath, this._firestore, null, { schema, validateReads: options.validateReads ?? false });
   }
 
   private generateRandomId(): string {
@@ -1945,13 +3339,17 @@ export class CollectionReference extends Query {
 /**
  * CollectionGroup for querying across all collections with the same ID
  */
-export class CollectionGroup extends Query {
+export class CollectionGroup<T = DocumentData> extends Query<T> {
   constructor(collectionId: string, firestore?: Firestore) {
     super(collectionId, firestore);
   }
 
-  protected clone(): CollectionGroup {
-    const query = new CollectionGroup(this.collectionId, this._firestore);
+  withConverter<U = DocumentData>(converter: FirestoreDataConverter<U> | null): CollectionGroup<U> {
+    return super.withConverter(converter) as CollectionGroup<U>;
+  }
+
+  protected clone(): CollectionGroup<T> {
+    const query = new CollectionGroup<T>(this.collectionId, this._firestore);
     query.filters = [...this.filters];
     query.orderByFields = [...this.orderByFields];
     query.queryLimit = this.queryLimit;
@@ -1962,10 +3360,12 @@ export class CollectionGroup extends Query {
     query.endAtValues = this.endAtValues;
     query.endAtBefore = this.endAtBefore;
     query.selectFields = this.selectFields;
+    query._converter = this._converter;
+    query._schema = this._schema;
     return query;
   }
 
-  async get(): Promise<QuerySnapshot> {
+  async get(options?: RequestOptions): Promise<QuerySnapshot<T>> {
     // Build Firestore query structure for collection group
     const whereClause = this.buildWhereClause();
     const orderByClause = this.buildOrderByClause();
@@ -1981,39 +3381,8 @@ export class CollectionGroup extends Query {
     if (endAtClause) filters.endAt = endAtClause;
     if (this.selectFields) filters.select = this.selectFields;
 
-    const documents = await queryCollectionGroup(this.collectionId, filters);
-
-    // If limitToLast, reverse the results
-    if (this.queryLimitType === "LAST") {
-      documents.reverse();
-    }
-
-    const docs: QueryDocumentSnapshot[] = documents.map((doc: any) => {
-      const ref = new DocumentReference(this.collectionId, doc.id, this._firestore);
-      // Ensure all timestamp-like objects are properly converted
-      const convertedDoc = convertTimestampObjects(doc);
-      return {
-        id: doc.id,
-        exists: true,
-        ref,
-        data: () => convertedDoc,
-        get: (fieldPath: string) => convertedDoc[fieldPath],
-        createTime: Timestamp.now(),
-        updateTime: Timestamp.now(),
-        readTime: Timestamp.now(),
-      };
-    });
-
-    return {
-      docs,
-      query: this,
-      size: docs.length,
-      empty: docs.length === 0,
-      readTime: Timestamp.now(),
-      forEach: (callback: (doc: QueryDocumentSnapshot) => void) => {
-        docs.forEach(callback);
-      },
-    };
+    const results = await queryCollectionGroup(this.firestore, this.collectionId, filters, options);
+    return this.buildQuerySnapshot(results);
   }
 }
 
@@ -2021,9 +3390,9 @@ export class CollectionGroup extends Query {
  * AggregateQuery for aggregate operations (count, sum, avg)
  */
 export class AggregateQuery {
-  constructor(private query: Query, private aggregateSpec: AggregateSpec) {}
+  constructor(private query: Query<any>, private aggregateSpec: AggregateSpec) {}
 
-  async get(): Promise<AggregateQuerySnapshot> {
+  async get(options?: RequestOptions): Promise<AggregateQuerySnapshot> {
     // Build the base query filters from the Query instance
     const filters: any = {};
 
@@ -2047,7 +3416,7 @@ export class AggregateQuery {
 
     // Run the aggregation query
     const collectionId = (this.query as any).collectionId;
-    const results = (await runAggregateQuery(collectionId, filters, this.aggregateSpec)) as any[];
+    const results = (await runAggregateQuery(this.query.firestore, collectionId, filters, this.aggregateSpec, options)) as any[];
 
     // Parse the results
     const aggregateFields: { [field: string]: number } = {};
@@ -2067,7 +3436,7 @@ export class AggregateQuery {
       }
     }
 
-    const readTime = results && results[0] && results[0].readTime ? Timestamp.fromDate(new Date(results[0].readTime)) : Timestamp.now();
+    const readTime = results && results[0] && results[0].readTime ? Timestamp.fromISOString(results[0].readTime) : Timestamp.now();
 
     return {
       query: this,
@@ -2078,6 +3447,48 @@ export class AggregateQuery {
 }
 
 export class Firestore {
+  private _settings: FirestoreSettings;
+  private _resolved?: FirestoreConfig;
+  private _otherDatabases = new Map<string, Firestore>();
+
+  constructor(settings: FirestoreSettings = {}) {
+    this._settings = { ...settings };
+  }
+
+  /**
+   * Settings are resolved on first use so the default instance can be created
+   * at import time without touching env vars
+   * @internal
+   */
+  get _config(): FirestoreConfig {
+    if (!this._resolved) {
+      this._resolved = resolveSettings(this._settings);
+    }
+    return this._resolved;
+  }
+
+  /**
+   * Instance for another project or database that shares these settings and credentials
+   * @internal
+   */
+  _forDatabase(projectId: string, databaseId: string): Firestore {
+    const key = `${projectId}/${databaseId}`;
+    let firestore = this._otherDatabases.get(key);
+    if (!firestore) {
+      firestore = new Firestore({ ...this._settings, projectId, databaseId });
+      this._otherDatabases.set(key, firestore);
+    }
+    return firestore;
+  }
+
+  get projectId(): string {
+    return this._config.projectId;
+  }
+
+  get databaseId(): string {
+    return this._config.databaseId;
+  }
+
   collection(collectionId: string): CollectionReference {
     return new CollectionReference(collectionId, this);
   }
@@ -2101,48 +3512,26 @@ export class Firestore {
     return new WriteBatch(this);
   }
 
-  async getAll(...documentRefs: DocumentReference[]): Promise<DocumentSnapshot[]> {
+  async getAll<T = DocumentData>(...documentRefs: DocumentReference<T>[]): Promise<DocumentSnapshot<T>[]> {
     if (documentRefs.length === 0) {
       return [];
     }
 
-    const paths = documentRefs.map((ref) => ref.path);
-    const results = (await batchGetDocuments(paths)) as any[];
-
-    return results.map((result: any, index: number) => {
-      const ref = documentRefs[index];
-
-      if (result.missing) {
-        return {
-          id: ref.id,
-          exists: false,
-          ref,
-          data: () => undefined,
-          get: () => undefined,
-        };
-      }
-
-      const doc = result.found;
-      const data: any = { id: doc.name.split("/").pop() };
-
-      for (const [key, value] of Object.entries(doc.fields || {})) {
-        data[key] = fromFirestoreValue(value);
-      }
+    const names = documentRefs.map((ref) => ref.formattedName);
+    const results = (await batchGetDocuments(this, names)) as any[];
 
-      // Ensure all timestamp-like objects are properly converted
-      const convertedData = convertTimestampObjects(data);
+    // batchGet streams results in no particular order, so match them up by name
+    const resultsByName = new Map<string, any>();
+    for (const result of results) {
+      resultsByName.set(result.found?.name || result.missing, result);
+    }
 
-      return {
-        id: ref.id,
-        exists: true,
-        ref,
-        data: () => convertedData,
-        get: (fieldPath: string) => convertedData[fieldPath],
-        createTime: doc.createTime ? Timestamp.fromDate(new Date(doc.createTime)) : undefined,
-        updateTime: doc.updateTime ? Timestamp.fromDate(new Date(doc.updateTime)) : undefined,
-        readTime: doc.readTime ? Timestamp.fromDate(new Date(doc.readTime)) : undefined,
-      };
-    });
+    return Promise.all(
+      documentRefs.map((ref) => {
+        const result = resultsByName.get(ref.formattedName);
+        return validateRead(buildSnapshot(ref, result?.found, result?.readTime), "get all documents");
+      })
+    );
   }
 
   async runTransaction<T>(updateFunction: (transaction: Transaction) => Promise<T>, options?: TransactionOptions): Promise<T> {
@@ -2161,15 +3550,16 @@ export class Firestore {
           };
         }
 
-        const transactionId = await beginTransaction(transactionOptions);
-        const transaction = new Transaction(transactionId, this);
+        const requestOptions = { signal: options?.signal };
+        const transactionId = await beginTransaction(this, transactionOptions, requestOptions);
+        const transaction = new Transaction(transactionId, this, requestOptions);
 
         try {
           const result = await updateFunction(transaction);
           await transaction.commit();
           return result;
         } catch (error) {
-          await rollbackTransaction(transactionId).catch(() => {
+          await rollbackTransaction(this, transactionId).catch(() => {
             // Ignore rollback errors
           });
           throw error;
@@ -2177,10 +3567,10 @@ export class Firestore {
       } catch (error: any) {
         lastError = error;
 
-        // Check if error is retryable
-        if (error.message?.includes("ABORTED") || error.message?.includes("contention")) {
+        // Contention aborts the transaction; anything else is not retryable
+        if (error instanceof FirestoreError && error.code === "aborted") {
           // Wait before retrying with exponential backoff
-          await new Promise((resolve) => setTimeout(resolve, Math.pow(2, attempt) * 100));
+          await sleep(Math.pow(2, attempt) * 100, options?.signal);
           continue;
         }
 
@@ -2193,10 +3583,18 @@ export class Firestore {
   }
 }
 
-// Main export - Firebase SDK-compatible Firestore instance
+// Main export - Firebase SDK-compatible Firestore instance configured from FIREBASE_* env vars
 export const db = new Firestore();
 
 // Also export getFirestore function for Firebase SDK compatibility
 export function getFirestore(): Firestore {
   return db;
 }
+
+/**
+ * Create a Firestore instance with explicit settings
+ * Use this when credentials come from a request-scoped binding rather than process.env
+ */
+export function initializeFirestore(settings: FirestoreSettings): Firestore {
+  return new Firestore(settings);
+}